@@ -5,19 +5,42 @@
  * Combines Google and Apple contacts, removes duplicates, filters trash,
  * and outputs cleaned VCF files for both services.
  *
- * Usage: npx tsx process-contacts.ts
+ * Usage: npx tsx process-contacts.ts [options] [label=]file.vcf|file.csv ...
+ *        npx tsx process-contacts.ts --help
  */
 
+import { createHash } from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
+import { isatty } from 'tty';
+import { parseArgs } from 'util';
 
 // ============================================================================
 // Types
 // ============================================================================
 
+type VCardFormat = 'google' | 'apple' | 'vcard4';
+type ExportFormat = VCardFormat | 'google-csv' | 'outlook-csv' | 'json';
+
+/**
+ * A phone number, email address or URL together with how the source
+ * labeled it: TYPE parameters (CELL, WORK, ...), an Apple itemN.X-ABLabel
+ * label, and whether it is the preferred value. Other properties from the
+ * same vCard group are kept in `extra`, without their group prefix.
+ */
+interface TypedValue {
+  value: string;
+  types: string[];
+  label: string;
+  pref: boolean;
+  extra?: string[];
+  // Set on phone numbers that fit no known numbering plan
+  invalid?: boolean;
+}
+
 interface Contact {
   id: string;
-  source: 'google' | 'apple';
+  source: string;
   raw: string;
   fn: string;
   n?: {
@@ -27,16 +50,19 @@ interface Contact {
     honorificPrefixes: string;
     honorificSuffixes: string;
   };
-  emails: string[];
-  phones: string[];
+  emails: TypedValue[];
+  phones: TypedValue[];
   org: string[];
   title: string;
   note: string;
   photo: string;
   bday: string;
-  urls: string[];
+  urls: TypedValue[];
   addresses: Array<{
     type: string[];
+    label: string;
+    pref: boolean;
+    extra?: string[];
     poBox: string;
     extendedAddress: string;
     streetAddress: string;
@@ -46,16 +72,102 @@ interface Contact {
     countryName: string;
   }>;
   otherProperties: Map<string, string[]>;
+  // vCard 4.0 KIND: empty for an individual, otherwise group, org or location
+  kind: string;
+  gender: string;
+  anniversary: string;
+  // Related people (RELATED, Apple's X-ABRELATEDNAMES), labeled like phones
+  related: TypedValue[];
+  // Members of a group contact, as URIs (urn:uuid:...)
+  members: string[];
+  // Groups not led by a phone/email/URL/address/relation (e.g. item3.X-ABDATE
+  // with its item3.X-ABLabel), one array of lines per group, prefix removed
+  propertyGroups: string[][];
+  // What the repairs run while reading changed, for the dry-run diff
+  repairs: ContactRepair[];
+}
+
+/** A field whose values differ between two versions of a contact. */
+interface FieldChange {
+  field: string;
+  before: string[];
+  after: string[];
+}
+
+/** Fields one repair step (mangled-name fix, note extraction) changed on a record. */
+interface ContactRepair {
+  step: 'mangled-name' | 'note-extraction' | 'display-name-split' | 'name-normalization';
+  changes: FieldChange[];
+}
+
+interface RemovedContact {
+  contact: Contact;
+  // Stable filter rule ID; reason is the readable text with the details
+  rule: string;
+  reason: string;
+  score?: QualityScore;
+}
+
+interface RuleCount {
+  reason: string;
+  count: number;
+}
+
+interface ListOverride {
+  uid: string;
+  fn: string;
+  // keep-list or drop-list, and the entry that matched
+  rule: string;
+  entry: string;
+  // What the rules alone would have done, e.g. "drop: Generic name: 'Mom' [generic-name]"
+  instead: string;
+}
+
+interface ReviewBandContact {
+  uid: string;
+  fn: string;
+  score: number;
+  factors: ScoreFactor[];
+}
+
+interface DateConflict {
+  uid: string;
+  fn: string;
+  field: 'bday' | 'anniversary';
+  kept: string;
+  dropped: string;
 }
 
 interface ProcessingStats {
-  googleTotal: number;
-  appleTotal: number;
+  sourceTotals: Map<string, number>;
+  sourceRemoved: Map<string, number>;
   combinedTotal: number;
   filteredOut: number;
   duplicatesMerged: number;
+  possibleDuplicates: number;
+  // Name blocks too large to compare pairwise even after splitting
+  skippedNameBlocks: number;
+  enrichRecords: number;
+  enrichedContacts: number;
+  enrichUnmatched: number;
   finalCount: number;
-  filterReasons: Map<string, number>;
+  invalidPhones: number;
+  // Keyed by filter rule ID
+  removedByRule: Map<string, RuleCount>;
+  keptByRule: Map<string, RuleCount>;
+  // Keyed by the signal that joined two records (email, phone, fn, n, fuzzy)
+  mergeSignals: Map<string, number>;
+  // Contacts a keep or drop list decided against the rules
+  listOverrides: ListOverride[];
+  // Merges that met two different birthdays or anniversaries
+  dateConflicts: DateConflict[];
+  // Names re-cased or cleaned by --normalize-names
+  namesNormalized: Array<{ uid: string; changes: FieldChange[] }>;
+  // Contacts per quality score band, and the kept ones in the review band
+  scoreBands: Record<QualityScore['band'], number>;
+  needsReview: ReviewBandContact[];
+  // Counts against the previous output, when one was given
+  incremental: { previous: number; added: number; removed: number; changed: number; unchanged: number } | null;
 }
 
 // ============================================================================
@@ -69,10 +181,24 @@ function unfoldLines(content: string): string[] {
 
   for (let i = 0; i < lines.length; i++) {
     let line = lines[i];
-
-    while (i + 1 < lines.length && (lines[i + 1].startsWith(' ') || lines[i + 1].startsWith('\t'))) {
+    const header = line.substring(0, line.indexOf(':') + 1);
+    const quotedPrintable = /QUOTED-PRINTABLE/i.test(header);
+    const base64 = /BASE64/i.test(header);
+
+    while (i + 1 < lines.length) {
+      const next = lines[i + 1];
+      if (next.startsWith(' ') || next.startsWith('\t')) {
+        line += next.substring(1);
+      } else if (quotedPrintable && line.endsWith('=')) {
+        // vCard 2.1 soft line break: the value continues on the next line
+        line = line.slice(0, -1) + next.trimStart();
+      } else if (base64 && /^[A-Za-z0-9+/=]+$/.test(next.trim())) {
+        // vCard 2.1 base64 data runs on, often unindented, up to a blank line
+        line += next.trim();
+      } else {
+        break;
+      }
       i++;
-      line += lines[i].substring(1);
     }
 
     if (line.trim()) {
@@ -94,7 +220,38 @@ function unescapeVCardValue(value: string): string {
     .replace(/\\\\/g, '\\');
 }
 
-function parsePropertyLine(line: string): { name: string; value: string; params: Record<string, string> } | null {
+/**
+ * Decode a byte string in the given charset, falling back to UTF-8 for
+ * charsets this runtime does not know.
+ */
+function decodeCharset(bytes: Buffer, charset: string): string {
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+function decodeQuotedPrintable(value: string, charset: string): string {
+  return value
+    .replace(/(?:=[0-9A-Fa-f]{2})+/g, run => decodeCharset(Buffer.from(run.replace(/=/g, ''), 'hex'), charset))
+    .replace(/=$/, '')
+    .replace(/\r\n/g, '\n');
+}
+
+// Bare vCard 2.1 parameters (TEL;CELL;PREF:) are types, except for encodings
+const BARE_ENCODINGS = new Set(['QUOTED-PRINTABLE', 'BASE64', '8BIT', '7BIT']);
+
+interface ParsedProperty {
+  group: string;
+  name: string;
+  value: string;
+  params: Record<string, string>;
+  /** The property as a vCard 3.0 line, when its value had to be decoded */
+  rewritten?: string;
+}
+
+function parsePropertyLine(line: string): ParsedProperty | null {
   const colonIndex = line.indexOf(':');
   if (colonIndex === -1) return null;
 
@@ -102,9 +259,12 @@ function parsePropertyLine(line: string): { name: string; value: string; params:
   const value = line.substring(colonIndex + 1);
 
   // Handle grouped properties (e.g., item1.TEL)
+  let group = '';
   let nameWithParams = nameAndParams;
   const dotIndex = nameAndParams.indexOf('.');
-  if (dotIndex !== -1) {
+  const semicolonIndex = nameAndParams.indexOf(';');
+  if (dotIndex !== -1 && (semicolonIndex === -1 || dotIndex < semicolonIndex)) {
+    group = nameAndParams.substring(0, dotIndex);
     nameWithParams = nameAndParams.substring(dotIndex + 1);
   }
 
@@ -115,29 +275,70 @@ function parsePropertyLine(line: string): { name: string; value: string; params:
   for (let i = 1; i < parts.length; i++) {
     const param = parts[i];
     const equalIndex = param.indexOf('=');
+    let paramName: string;
+    let paramValue: string;
     if (equalIndex === -1) {
-      params[param.toUpperCase()] = '';
+      paramValue = param.toUpperCase();
+      paramName = BARE_ENCODINGS.has(paramValue) ? 'ENCODING' : 'TYPE';
     } else {
-      const paramName = param.substring(0, equalIndex).toUpperCase();
-      const paramValue = param.substring(equalIndex + 1).replace(/^"(.*)"$/, '$1');
-      params[paramName] = paramValue;
+      paramName = param.substring(0, equalIndex).toUpperCase();
+      paramValue = param.substring(equalIndex + 1).replace(/^"(.*)"$/, '$1');
     }
+    // Repeated parameters (TYPE=WORK;TYPE=VOICE) accumulate as a list
+    params[paramName] = params[paramName] ? `${params[paramName]},${paramValue}` : paramValue;
   }
 
-  return { name, value: unescapeVCardValue(value), params };
-}
+  const encoding = (params.ENCODING || '').toUpperCase();
+  const charset = params.CHARSET || '';
 
-function parseVCard(vcardContent: string, source: 'google' | 'apple'): Contact | null {
-  const lines = unfoldLines(vcardContent);
+  if (encoding === 'BASE64' || encoding === 'B') {
+    return { group, name, value: value.replace(/\s/g, ''), params };
+  }
 
-  if (lines.length === 0 || !lines[0].startsWith('BEGIN:VCARD')) {
-    return null;
+  if (encoding === 'QUOTED-PRINTABLE') {
+    const decoded = unescapeVCardValue(decodeQuotedPrintable(value, charset));
+    delete params.ENCODING;
+    delete params.CHARSET;
+    return { group, name, value: decoded, params, rewritten: formatPropertyLine(group, name, params, decoded) };
+  }
+
+  if (charset && !/^utf-?8$/i.test(charset) && !/[^\x00-\xff]/.test(value)) {
+    // 8-bit value in a legacy charset, read byte for byte (see readVCardFile)
+    const decoded = unescapeVCardValue(decodeCharset(Buffer.from(value, 'latin1'), charset));
+    delete params.CHARSET;
+    return { group, name, value: decoded, params, rewritten: formatPropertyLine(group, name, params, decoded) };
   }
 
-  const contact: Contact = {
-    id: `${source}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+  return { group, name, value: unescapeVCardValue(value), params };
+}
+
+function formatPropertyLine(group: string, name: string, params: Record<string, string>, value: string): string {
+  const paramText = Object.entries(params)
+    .map(([key, v]) => (v ? `;${key}=${v}` : `;${key}`))
+    .join('');
+  const escaped = value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+  return `${group ? `${group}.` : ''}${name}${paramText}:${escaped}`;
+}
+
+/**
+ * Split TYPE parameters into upper-case types and the preferred flag.
+ * INTERNET on emails carries no information and is written back on export.
+ */
+function parseTypeParams(params: Record<string, string>): { types: string[]; pref: boolean } {
+  const types = (params.TYPE || '')
+    .split(',')
+    .map(t => t.trim().toUpperCase())
+    .filter(t => t && t !== 'INTERNET');
+  const pref = types.includes('PREF') || 'PREF' in params;
+  return { types: types.filter(t => t !== 'PREF'), pref };
+}
+
+function createContact(source: string, raw: string): Contact {
+  return {
+    // Set from UID, or by identityUid once the record is read
+    id: '',
     source,
-    raw: vcardContent,
+    raw,
     fn: '',
     emails: [],
     phones: [],
@@ -148,16 +349,180 @@ function parseVCard(vcardContent: string, source: 'google' | 'apple'): Contact |
     bday: '',
     urls: [],
     addresses: [],
+    kind: '',
+    gender: '',
+    anniversary: '',
+    related: [],
+    members: [],
     otherProperties: new Map(),
+    propertyGroups: [],
+    repairs: [],
   };
+}
 
-  for (const line of lines) {
-    if (line === 'BEGIN:VCARD' || line === 'END:VCARD') continue;
+/**
+ * A UID for a record that has none, derived from who it is: its folded
+ * name, emails and canonical phone numbers. Neither the source label nor
+ * the rest of the record counts, so a re-export with a new REV or PRODID,
+ * an edited note or a renamed file keeps the IDs that review decisions and
+ * keep/drop list entries refer to. Records with no identity at all fall
+ * back to their content.
+ */
+function identityUid(contact: Contact): string {
+  const identity = [
+    normalizeNameForComparison(contact.fn),
+    ...valuesOf(contact.emails).map(e => e.toLowerCase()).sort(),
+    ...valuesOf(contact.phones).sort(),
+  ].filter(v => v);
+  const data = identity.length > 0 ? identity.join('\n') : contact.raw.replace(/\r\n?/g, '\n');
+  return `contact-${createHash('sha1').update(data).digest('hex').slice(0, 16)}`;
+}
+
+/**
+ * Records of the same person (same name, emails and phones) share a derived
+ * ID; later ones get a -2, -3, ... suffix, which depends only on input order.
+ */
+function makeIdsUnique(contacts: Contact[]): void {
+  const seen = new Map<string, number>();
+  for (const contact of contacts) {
+    const count = (seen.get(contact.id) || 0) + 1;
+    seen.set(contact.id, count);
+    if (count > 1) contact.id = `${contact.id}-${count}`;
+  }
+}
+
+/** The comparable fields of a contact, each as a list of display values. */
+function fieldSnapshot(contact: Contact): Record<string, string[]> {
+  return {
+    fn: [contact.fn],
+    n: contact.n ? [formatNameForAudit(contact.n)] : [],
+    emails: valuesOf(contact.emails),
+    phones: valuesOf(contact.phones),
+    urls: valuesOf(contact.urls),
+    org: [...contact.org],
+    title: [contact.title],
+    note: [contact.note],
+    bday: [contact.bday],
+    anniversary: [contact.anniversary],
+    addresses: contact.addresses.map(formatAddressForAudit),
+    related: valuesOf(contact.related),
+  };
+}
+
+/** Fields whose values differ between two snapshots, ignoring the order of list values. */
+function diffSnapshots(before: Record<string, string[]>, after: Record<string, string[]>): FieldChange[] {
+  const key = (values: string[]) => values.filter(v => v).sort().join('\n');
+  return Object.keys(before)
+    .filter(field => key(before[field]) !== key(after[field]))
+    .map(field => ({ field, before: before[field], after: after[field] }));
+}
+
+function recordRepair(contact: Contact, step: ContactRepair['step'], before: Record<string, string[]>): void {
+  const changes = diffSnapshots(before, fieldSnapshot(contact));
+  if (changes.length > 0) {
+    contact.repairs.push({ step, changes });
+  }
+}
+
+/** Repairs shared by every input format, once a contact has been read. */
+function finishParsedContact(contact: Contact, phoneRegion: string): Contact {
+  // Fix mangled contacts (CSV data in name fields)
+  if (isMangledContact(contact)) {
+    const before = fieldSnapshot(contact);
+    fixMangledContact(contact);
+    recordRepair(contact, 'mangled-name', before);
+  }
+
+  // Extract structured data from notes field
+  const beforeNote = fieldSnapshot(contact);
+  extractDataFromNote(contact);
+  recordRepair(contact, 'note-extraction', beforeNote);
+
+  // Company and title written into the display name
+  const beforeSplit = fieldSnapshot(contact);
+  splitCompanyFromName(contact);
+  recordRepair(contact, 'display-name-split', beforeSplit);
+
+  // Structured name from FN when the source had none, for deduplication and export
+  const n = contact.n;
+  const hasName = n && (n.familyName || n.givenName || n.additionalNames);
+  if (!hasName && !contact.kind && isParseableName(contact.fn)) {
+    contact.n = parsePersonName(contact.fn.trim());
+  }
+
+  // Canonicalize phones once addresses are known, so their country applies
+  canonicalizeContactPhones(contact, phoneRegion);
+
+  if (!contact.id) contact.id = identityUid(contact);
+
+  return contact;
+}
+
+function parseVCard(vcardContent: string, source: string, phoneRegion = DEFAULT_PHONE_REGION): Contact | null {
+  const lines = unfoldLines(vcardContent);
+
+  if (lines.length === 0 || !lines[0].startsWith('BEGIN:VCARD')) {
+    return null;
+  }
+
+  const contact = createContact(source, vcardContent);
+
+  const properties = lines
+    .map(line => {
+      const parsed = parsePropertyLine(line);
+      return { line: parsed?.rewritten || line, parsed };
+    })
+    .filter((p): p is { line: string; parsed: ParsedProperty } => p.parsed !== null);
+
+  // Property groups (item1.TEL + item1.X-ABLabel) belong together. A group
+  // led by a phone, email, URL, address or relation travels with that value,
+  // and a group with several such values gives each of them the label, the
+  // first one its other members; an Apple anniversary date is read as
+  // ANNIVERSARY; any other group is kept as a unit. Group names are dropped
+  // and renumbered on export.
+  const groups = new Map<string, typeof properties>();
+  for (const property of properties) {
+    const key = property.parsed.group.toLowerCase();
+    if (!key) continue;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(property);
+  }
 
-    const parsed = parsePropertyLine(line);
-    if (!parsed) continue;
+  const groupLeaders = new Map<string, ParsedProperty[]>();
+  for (const [key, members] of groups) {
+    const leaders = members.filter(m => ['TEL', 'EMAIL', 'URL', 'ADR', 'RELATED', 'X-ABRELATEDNAMES'].includes(m.parsed.name));
+    const date = members.find(m => m.parsed.name === 'X-ABDATE');
+    if (leaders.length > 0) {
+      groupLeaders.set(key, leaders.map(m => m.parsed));
+    } else if (date && members.length === 2 &&
+      members.some(m => m.parsed.name === 'X-ABLABEL' && m.parsed.value === APPLE_ANNIVERSARY_LABEL)) {
+      contact.anniversary = normalizeDateValue(date.parsed.value);
+    } else {
+      const lines = members.map(m => m.line.substring(m.parsed.group.length + 1));
+      contact.propertyGroups.push(lines.map(line => (isDateLine(line) ? normalizeDateLine(line) : line)));
+    }
+  }
 
-    const { name, value, params } = parsed;
+  for (const { line, parsed } of properties) {
+    const { group, name, value, params } = parsed;
+    const { types, pref } = parseTypeParams(params);
+
+    let label = '';
+    let extra: string[] = [];
+    if (group) {
+      // Other members of a group were handled with their leader
+      const leaders = groupLeaders.get(group.toLowerCase()) || [];
+      if (!leaders.includes(parsed)) continue;
+
+      for (const member of groups.get(group.toLowerCase())!) {
+        if (leaders.includes(member.parsed)) continue;
+        if (member.parsed.name === 'X-ABLABEL') {
+          label = member.parsed.value;
+        } else if (leaders[0] === parsed) {
+          extra.push(member.line.substring(group.length + 1));
+        }
+      }
+    }
 
     switch (name) {
       case 'FN':
@@ -176,22 +541,23 @@ function parseVCard(vcardContent: string, source: 'google' | 'apple'): Contact |
         break;
 
       case 'TEL':
-        const phone = normalizePhone(value);
-        if (phone && !contact.phones.includes(phone)) {
-          contact.phones.push(phone);
+        // vCard 4.0 writes numbers as tel: URIs (tel:+1-555-555-0100;ext=12)
+        const phone = normalizePhone(value.replace(/^tel:/i, '').split(';')[0]);
+        if (phone) {
+          addTypedValue(contact.phones, { value: phone, types, label, pref, extra });
         }
         break;
 
       case 'EMAIL':
         const email = value.toLowerCase().trim();
-        if (email && !contact.emails.includes(email)) {
-          contact.emails.push(email);
+        if (email) {
+          addTypedValue(contact.emails, { value: email, types, label, pref, extra });
         }
         break;
 
       case 'URL':
-        if (value && !contact.urls.includes(value)) {
-          contact.urls.push(value);
+        if (value) {
+          addTypedValue(contact.urls, { value, types, label, pref, extra });
         }
         break;
 
@@ -209,18 +575,20 @@ function parseVCard(vcardContent: string, source: 'google' | 'apple'): Contact |
         break;
 
       case 'PHOTO':
-        contact.photo = value;
+        contact.photo = photoToUri(value, params);
         break;
 
       case 'BDAY':
-        contact.bday = value;
+        contact.bday = normalizeDateValue(value);
         break;
 
       case 'ADR':
         const adrParts = value.split(';');
-        const typeStr = params.TYPE || '';
         contact.addresses.push({
-          type: typeStr.split(',').filter(t => t),
+          type: types,
+          label,
+          pref,
+          extra,
           poBox: adrParts[0] || '',
           extendedAddress: adrParts[1] || '',
           streetAddress: adrParts[2] || '',
@@ -235,28 +603,80 @@ function parseVCard(vcardContent: string, source: 'google' | 'apple'): Contact |
         contact.id = value;
         break;
 
+      case 'KIND':
+      case 'X-ADDRESSBOOKSERVER-KIND':
+        contact.kind = value.toLowerCase() === 'individual' ? '' : value.toLowerCase();
+        break;
+
+      case 'MEMBER':
+      case 'X-ADDRESSBOOKSERVER-MEMBER':
+        if (value && !contact.members.includes(value)) {
+          contact.members.push(value);
+        }
+        break;
+
+      case 'GENDER':
+      case 'X-GENDER':
+        contact.gender = value;
+        break;
+
+      case 'ANNIVERSARY':
+        contact.anniversary = normalizeDateValue(value);
+        break;
+
+      case 'RELATED':
+      case 'X-ABRELATEDNAMES':
+        if (value) {
+          addTypedValue(contact.related, { value, types, label, pref, extra });
+        }
+        break;
+
+      case 'BEGIN':
+      case 'END':
+      case 'VERSION':
+      case 'PRODID':
+        // Written fresh by contactToVCard
+        break;
+
       default:
         // Store other properties for preservation
         if (!contact.otherProperties.has(name)) {
           contact.otherProperties.set(name, []);
         }
-        contact.otherProperties.get(name)!.push(line);
+        contact.otherProperties.get(name)!.push(isDateLine(line) ? normalizeDateLine(line) : line);
         break;
     }
   }
 
-  // Fix mangled contacts (CSV data in name fields)
-  if (isMangledContact(contact)) {
-    fixMangledContact(contact);
-  }
+  return finishParsedContact(contact, phoneRegion);
+}
 
-  // Extract structured data from notes field
-  extractDataFromNote(contact);
+/**
+ * Photos are kept as URIs, the vCard 4.0 form: inline images become data:
+ * URIs, linked images stay as they are.
+ */
+function photoToUri(value: string, params: Record<string, string>): string {
+  const encoding = (params.ENCODING || '').toUpperCase();
+  if (encoding !== 'B' && encoding !== 'BASE64') return value;
+  const type = (params.TYPE || 'JPEG').split(',')[0].toLowerCase();
+  return `data:${type.includes('/') ? type : `image/${type}`};base64,${value}`;
+}
 
-  return contact;
+/**
+ * Read a VCF file as UTF-8. vCard 2.1 exports may instead hold 8-bit text
+ * in the charset named by each value's CHARSET parameter; such files are
+ * read byte for byte and decoded per value by parsePropertyLine.
+ */
+function readVCardFile(file: string): string {
+  const bytes = fs.readFileSync(file);
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return bytes.toString('latin1');
+  }
 }
 
-function parseVCFFile(content: string, source: 'google' | 'apple'): Contact[] {
+function parseVCFFile(content: string, source: string, phoneRegion = DEFAULT_PHONE_REGION): Contact[] {
   const contacts: Contact[] = [];
 
   const vcardBlocks = content.split(/(?=BEGIN:VCARD)/g)
@@ -264,7 +684,7 @@ function parseVCFFile(content: string, source: 'google' | 'apple'): Contact[] {
     .filter(block => block.startsWith('BEGIN:VCARD'));
 
   for (const block of vcardBlocks) {
-    const contact = parseVCard(block, source);
+    const contact = parseVCard(block, source, phoneRegion);
     if (contact) {
       contacts.push(contact);
     }
@@ -273,6 +693,403 @@ function parseVCFFile(content: string, source: 'google' | 'apple'): Contact[] {
   return contacts;
 }
 
+// ============================================================================
+// CSV Import
+// ============================================================================
+
+/**
+ * Split CSV text into rows (RFC 4180): quoted fields may hold commas,
+ * doubled quotes and line breaks. Blank rows are dropped.
+ */
+function parseCSV(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const ch = content[i];
+    if (quoted) {
+      if (ch === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(f => f.trim()));
+}
+
+function formatCSVRow(fields: string[]): string {
+  return fields.map(f => (/[",\r\n]/.test(f) ? `"${f.replace(/"/g, '""')}"` : f)).join(',');
+}
+
+type CSVLayout = 'google' | 'outlook' | 'linkedin';
+
+/** Tell Google CSV, Outlook CSV and LinkedIn Connections.csv apart by their column names. */
+function detectCSVLayout(header: string[]): CSVLayout | null {
+  const has = (column: string) => header.includes(column);
+  if (has('Connected On') && has('First Name')) return 'linkedin';
+  if (has('E-mail 1 - Value') || has('Phone 1 - Value') || has('Group Membership')) return 'google';
+  if (has('E-mail Address') || has('Business Phone') || has('Mobile Phone')) return 'outlook';
+  return null;
+}
+
+/** Google CSV type names and the vCard types they stand for; others become custom labels. */
+const GOOGLE_CSV_TYPES: Record<string, string[]> = {
+  'mobile': ['CELL'],
+  'home': ['HOME'],
+  'work': ['WORK'],
+  'main': ['MAIN'],
+  'other': ['OTHER'],
+  'home fax': ['HOME', 'FAX'],
+  'work fax': ['WORK', 'FAX'],
+  'other fax': ['FAX'],
+  'pager': ['PAGER'],
+};
+
+// Google marks system groups (* myContacts, * starred) and the primary value with '* '
+const GOOGLE_CSV_PRIMARY = /^\*\s*/;
+
+/**
+ * Read the numbered column families of a Google CSV ("Phone 1 - Type",
+ * "Phone 1 - Value", ...). Old exports name the type column "Type", new
+ * ones "Label". One cell may hold several values separated by " ::: ".
+ */
+function googleCSVEntries(record: Record<string, string>, prefix: string): Array<{
+  type: string;
+  pref: boolean;
+  fields: Record<string, string>;
+  values: string[];
+}> {
+  const entries = [];
+  for (let n = 1; `${prefix} ${n} - Value` in record || `${prefix} ${n} - Street` in record; n++) {
+    const fields: Record<string, string> = {};
+    for (const [column, value] of Object.entries(record)) {
+      if (column.startsWith(`${prefix} ${n} - `)) {
+        fields[column.substring(`${prefix} ${n} - `.length)] = value;
+      }
+    }
+    const typeCell = fields.Type ?? fields.Label ?? '';
+    entries.push({
+      type: typeCell.replace(GOOGLE_CSV_PRIMARY, ''),
+      pref: GOOGLE_CSV_PRIMARY.test(typeCell),
+      fields,
+      values: (fields.Value || '').split(' ::: ').map(v => v.trim()).filter(v => v),
+    });
+  }
+  return entries;
+}
+
+function googleCSVTyped(value: string, type: string, pref: boolean): TypedValue {
+  const types = GOOGLE_CSV_TYPES[type.toLowerCase()];
+  return { value, types: types || [], label: types ? '' : type, pref };
+}
+
+/** A relation name from a CSV (Spouse, Child, ...) as one of Apple's labels where there is one. */
+function relationLabel(relation: string): string {
+  const apple = `_$!<${relation.charAt(0).toUpperCase()}${relation.slice(1).toLowerCase()}>!$_`;
+  return apple in APPLE_RELATION_LABELS ? apple : relation;
+}
+
+/** An Outlook CSV date, month first; Outlook writes 0/0/00 for none. */
+function parseCSVDate(value: string): string {
+  if (/^0{1,2}\/0{1,2}\/\d+$/.test(value.trim())) return '';
+  return normalizeDateValue(value, 'mdy');
+}
+
+function composeName(...parts: string[]): string {
+  return parts.filter(p => p).join(' ');
+}
+
+function addCategories(contact: Contact, categories: string[]): void {
+  if (categories.length > 0) {
+    contact.otherProperties.set('CATEGORIES', [`CATEGORIES:${categories.map(escapeVCardValue).join(',')}`]);
+  }
+}
+
+function googleCSVToContact(record: Record<string, string>, contact: Contact): void {
+  const given = record['Given Name'] ?? record['First Name'] ?? '';
+  const middle = record['Additional Name'] ?? record['Middle Name'] ?? '';
+  const family = record['Family Name'] ?? record['Last Name'] ?? '';
+  const prefix = record['Name Prefix'] || '';
+  const suffix = record['Name Suffix'] || '';
+  if (given || family) {
+    contact.n = { familyName: family, givenName: given, additionalNames: middle, honorificPrefixes: prefix, honorificSuffixes: suffix };
+  }
+  contact.fn = record['Name'] || record['File As'] || composeName(prefix, given, middle, family, suffix);
+
+  for (const { type, pref, values } of googleCSVEntries(record, 'E-mail')) {
+    values.forEach((v, i) => addTypedValue(contact.emails, googleCSVTyped(v.toLowerCase(), type, pref && i === 0)));
+  }
+  for (const { type, pref, values } of googleCSVEntries(record, 'Phone')) {
+    for (const [i, v] of values.entries()) {
+      const phone = normalizePhone(v);
+      if (phone) addTypedValue(contact.phones, googleCSVTyped(phone, type, pref && i === 0));
+    }
+  }
+  for (const { type, pref, values } of googleCSVEntries(record, 'Website')) {
+    values.forEach((v, i) => addTypedValue(contact.urls, googleCSVTyped(v, type, pref && i === 0)));
+  }
+  for (const { type, values } of googleCSVEntries(record, 'Relation')) {
+    values.forEach(v => addTypedValue(contact.related, { value: v, types: [], label: relationLabel(type), pref: false }));
+  }
+  for (const { type, values } of googleCSVEntries(record, 'Event')) {
+    for (const v of values) {
+      if (type.toLowerCase() === 'anniversary' && !contact.anniversary) {
+        contact.anniversary = normalizeDateValue(v);
+      } else {
+        contact.propertyGroups.push([`X-ABDATE:${normalizeDateValue(v)}`, `X-ABLabel:${escapeVCardValue(type)}`]);
+      }
+    }
+  }
+  for (const { type, values } of googleCSVEntries(record, 'Custom Field')) {
+    for (const v of values) {
+      // Google CSV has no gender column; our own export writes it as a custom field
+      if (type === 'Gender' && !contact.gender) {
+        contact.gender = v;
+        continue;
+      }
+      contact.propertyGroups.push([`X-CUSTOM:${escapeVCardValue(v)}`, `X-ABLabel:${escapeVCardValue(type)}`]);
+    }
+  }
+
+  for (const { type, pref, fields } of googleCSVEntries(record, 'Address')) {
+    const typed = googleCSVTyped('', type, pref);
+    const street = fields.Street || '';
+    if (!street && !fields.City && !fields['Postal Code'] && !fields.Formatted) continue;
+    contact.addresses.push({
+      type: typed.types,
+      label: typed.label,
+      pref,
+      poBox: fields['PO Box'] || '',
+      extendedAddress: fields['Extended Address'] || '',
+      streetAddress: street || (fields.City ? '' : (fields.Formatted || '').replace(/\s*\n\s*/g, ', ')),
+      locality: fields.City || '',
+      region: fields.Region || '',
+      postalCode: fields['Postal Code'] || '',
+      countryName: fields.Country || '',
+    });
+  }
+
+  const orgName = record['Organization 1 - Name'] ?? record['Organization Name'] ?? '';
+  const department = record['Organization 1 - Department'] ?? record['Organization Department'] ?? '';
+  contact.org = [orgName, department].filter(o => o);
+  contact.title = record['Organization 1 - Title'] ?? record['Organization Title'] ?? '';
+
+  contact.note = record['Notes'] || '';
+  contact.bday = normalizeDateValue(record['Birthday'] || '');
+  contact.gender = contact.gender || record['Gender'] || '';
+  contact.photo = record['Photo'] || '';
+  if (record['Nickname']) {
+    contact.otherProperties.set('NICKNAME', [`NICKNAME:${escapeVCardValue(record['Nickname'])}`]);
+  }
+
+  // Group membership, without Google's system groups (* myContacts, * starred)
+  const groups = (record['Group Membership'] ?? record['Labels'] ?? '')
+    .split(' ::: ')
+    .map(g => g.trim())
+    .filter(g => g && !GOOGLE_CSV_PRIMARY.test(g));
+  addCategories(contact, groups);
+}
+
+/** Outlook phone columns and the vCard types or label each stands for. */
+const OUTLOOK_PHONE_COLUMNS: Array<[column: string, types: string[], label: string]> = [
+  ['Primary Phone', [], ''],
+  ['Mobile Phone', ['CELL'], ''],
+  ['Home Phone', ['HOME'], ''],
+  ['Home Phone 2', ['HOME'], ''],
+  ['Business Phone', ['WORK'], ''],
+  ['Business Phone 2', ['WORK'], ''],
+  ['Company Main Phone', ['WORK', 'MAIN'], ''],
+  ['Other Phone', ['OTHER'], ''],
+  ['Pager', ['PAGER'], ''],
+  ['Business Fax', ['WORK', 'FAX'], ''],
+  ['Home Fax', ['HOME', 'FAX'], ''],
+  ['Other Fax', ['FAX'], ''],
+  ['TTY/TDD Phone', ['TEXTPHONE'], ''],
+  ['Car Phone', [], 'Car'],
+  ['Callback', [], 'Callback'],
+  ['Radio Phone', [], 'Radio'],
+  ['ISDN', [], 'ISDN'],
+  ['Telex', [], 'Telex'],
+  ["Assistant's Phone", [], 'Assistant'],
+];
+
+const OUTLOOK_ADDRESS_PREFIXES: Array<[prefix: string, types: string[]]> = [
+  ['Business', ['WORK']],
+  ['Home', ['HOME']],
+  ['Other', ['OTHER']],
+];
+
+function outlookCSVToContact(record: Record<string, string>, contact: Contact): void {
+  const given = record['First Name'] || '';
+  const middle = record['Middle Name'] || '';
+  const family = record['Last Name'] || '';
+  // Outlook's "Title" is the honorific; the job title is "Job Title"
+  const prefix = record['Title'] || '';
+  const suffix = record['Suffix'] || '';
+  if (given || family) {
+    contact.n = { familyName: family, givenName: given, additionalNames: middle, honorificPrefixes: prefix, honorificSuffixes: suffix };
+  }
+  contact.fn = record['Display Name'] || composeName(prefix, given, middle, family, suffix);
+
+  for (const column of ['E-mail Address', 'E-mail 2 Address', 'E-mail 3 Address']) {
+    const email = (record[column] || '').toLowerCase();
+    // Exchange-internal addresses (/o=ExchangeLabs/...) are not email addresses
+    if (email.includes('@')) {
+      addTypedValue(contact.emails, typedValue(email));
+    }
+  }
+
+  // The primary phone usually repeats one of the others; addTypedValue
+  // merges it there and keeps the preferred flag
+  for (const [column, types, label] of OUTLOOK_PHONE_COLUMNS) {
+    const phone = normalizePhone(record[column] || '');
+    if (phone) {
+      addTypedValue(contact.phones, { value: phone, types, label, pref: column === 'Primary Phone' });
+    }
+  }
+
+  if (record['Web Page']) addTypedValue(contact.urls, { ...typedValue(record['Web Page']), types: ['WORK'] });
+  if (record['Personal Web Page']) addTypedValue(contact.urls, { ...typedValue(record['Personal Web Page']), types: ['HOME'] });
+
+  for (const [addrPrefix, types] of OUTLOOK_ADDRESS_PREFIXES) {
+    const street = [1, 2, 3]
+      .map(n => record[n === 1 ? `${addrPrefix} Street` : `${addrPrefix} Street ${n}`] || '')
+      .filter(l => l)
+      .join(', ');
+    const address = {
+      type: types,
+      label: '',
+      pref: false,
+      poBox: record[`${addrPrefix} Address PO Box`] || record[`${addrPrefix} PO Box`] || '',
+      extendedAddress: '',
+      streetAddress: street,
+      locality: record[`${addrPrefix} City`] || '',
+      region: record[`${addrPrefix} State`] || '',
+      postalCode: record[`${addrPrefix} Postal Code`] || '',
+      countryName: record[`${addrPrefix} Country/Region`] || record[`${addrPrefix} Country`] || '',
+    };
+    if (address.streetAddress || address.locality || address.postalCode || address.poBox || address.countryName) {
+      contact.addresses.push(address);
+    }
+  }
+
+  contact.org = [record['Company'] || '', record['Department'] || ''].filter(o => o);
+  contact.title = record['Job Title'] || '';
+  contact.note = record['Notes'] || '';
+  contact.bday = parseCSVDate(record['Birthday'] || '');
+  contact.anniversary = parseCSVDate(record['Anniversary'] || '');
+  const gender = (record['Gender'] || '').toLowerCase();
+  contact.gender = gender === 'male' ? 'M' : gender === 'female' ? 'F' : '';
+
+  const relations: Array<[column: string, label: string]> = [
+    ['Spouse', '_$!<Spouse>!$_'],
+    ["Manager's Name", '_$!<Manager>!$_'],
+    ["Assistant's Name", '_$!<Assistant>!$_'],
+  ];
+  for (const [column, label] of relations) {
+    if (record[column]) {
+      addTypedValue(contact.related, { value: record[column], types: [], label, pref: false });
+    }
+  }
+
+  if (record['Nickname']) {
+    contact.otherProperties.set('NICKNAME', [`NICKNAME:${escapeVCardValue(record['Nickname'])}`]);
+  }
+  addCategories(contact, (record['Categories'] || '').split(';').map(c => c.trim()).filter(c => c));
+}
+
+/** LinkedIn's Connections.csv: name, email (if shared), company, position and profile URL. */
+function linkedinCSVToContact(record: Record<string, string>, contact: Contact): void {
+  const given = record['First Name'] || '';
+  const family = record['Last Name'] || '';
+  if (given || family) {
+    contact.n = { familyName: family, givenName: given, additionalNames: '', honorificPrefixes: '', honorificSuffixes: '' };
+  }
+  contact.fn = composeName(given, family);
+
+  const email = (record['Email Address'] || '').toLowerCase();
+  if (email) addTypedValue(contact.emails, typedValue(email));
+  if (record['URL']) addTypedValue(contact.urls, typedValue(record['URL']));
+  contact.org = record['Company'] ? [record['Company']] : [];
+  contact.title = record['Position'] || '';
+}
+
+/**
+ * Read a Google CSV, Outlook CSV or LinkedIn Connections.csv export. The
+ * layout is recognized from the header row; each row becomes a contact
+ * tagged with `source`, just as a vCard would.
+ */
+function parseCSVFile(content: string, source: string, phoneRegion = DEFAULT_PHONE_REGION): Contact[] {
+  const allRows = parseCSV(content);
+  if (allRows.length === 0) return [];
+
+  // LinkedIn puts a few lines of notes above the header row
+  const headerIndex = allRows.findIndex(row => detectCSVLayout(row.map(h => h.trim())) !== null);
+  if (headerIndex === -1) {
+    throw new Error('unrecognized CSV columns (expected a Google CSV, Outlook CSV or LinkedIn Connections.csv export)');
+  }
+  const columns = allRows[headerIndex].map(h => h.trim());
+  const layout = detectCSVLayout(columns)!;
+  const rows = allRows.slice(headerIndex + 1);
+
+  return rows.map(row => {
+    const record: Record<string, string> = {};
+    columns.forEach((column, i) => { record[column] = (row[i] || '').trim(); });
+
+    const contact = createContact(source, formatCSVRow(row));
+    if (layout === 'google') {
+      googleCSVToContact(record, contact);
+    } else if (layout === 'outlook') {
+      outlookCSVToContact(record, contact);
+    } else {
+      linkedinCSVToContact(record, contact);
+    }
+    return finishParsedContact(contact, phoneRegion);
+  });
+}
+
+// Windows-1252 differs from Latin-1 in 0x80-0x9F (curly quotes, dashes, the
+// euro sign). Mapped here because Node's TextDecoder reads it as Latin-1.
+const WINDOWS_1252_HIGH = '\u20ac\u0081\u201a\u0192\u201e\u2026\u2020\u2021\u02c6\u2030\u0160\u2039\u0152\u008d\u017d\u008f' +
+  '\u0090\u2018\u2019\u201c\u201d\u2022\u2013\u2014\u02dc\u2122\u0161\u203a\u0153\u009d\u017e\u0178';
+
+/**
+ * Read a CSV file as UTF-8 (a byte order mark is dropped), falling back to
+ * Windows-1252, the encoding Outlook uses for its exports.
+ */
+function readCSVFile(file: string): string {
+  const bytes = fs.readFileSync(file);
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return bytes.toString('latin1').replace(/[\x80-\x9f]/g, c => WINDOWS_1252_HIGH[c.charCodeAt(0) - 0x80]);
+  }
+}
+
 // ============================================================================
 // Mangled Contact Fixer
 // ============================================================================
@@ -294,10 +1111,7 @@ function fixMangledContact(contact: Contact): void {
     // Email pattern
     const emailRegex = /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
     if (emailRegex.test(trimmed)) {
-      const email = trimmed.toLowerCase();
-      if (!contact.emails.includes(email)) {
-        contact.emails.push(email);
-      }
+      addTypedValue(contact.emails, typedValue(trimmed.toLowerCase()));
       continue;
     }
 
@@ -307,8 +1121,8 @@ function fixMangledContact(contact: Contact): void {
       const phoneChars = trimmed.replace(/[\d\s\(\)\-\+\.]/g, '');
       if (phoneChars.length <= 2) {
         const phone = normalizePhone(trimmed);
-        if (phone && !contact.phones.includes(phone)) {
-          contact.phones.push(phone);
+        if (phone) {
+          addTypedValue(contact.phones, typedValue(phone));
         }
         continue;
       }
@@ -317,7 +1131,7 @@ function fixMangledContact(contact: Contact): void {
 
   // Try to generate a reasonable name from email
   if (contact.emails.length > 0) {
-    const email = contact.emails[0];
+    const email = contact.emails[0].value;
     const localPart = email.split('@')[0];
 
     if (localPart.includes('.')) {
@@ -489,24 +1303,20 @@ function extractDataFromNote(contact: Contact): void {
   if (foundStructuredData) {
     // Add emails
     for (const email of extractedEmails) {
-      if (!contact.emails.includes(email)) {
-        contact.emails.push(email);
-      }
+      addTypedValue(contact.emails, typedValue(email));
     }
 
     // Add phones
     for (const phone of extractedPhones) {
       const normalized = normalizePhoneForNote(phone);
-      if (normalized && !contact.phones.includes(normalized)) {
-        contact.phones.push(normalized);
+      if (normalized) {
+        addTypedValue(contact.phones, typedValue(normalized));
       }
     }
 
     // Add URLs
     for (const url of extractedUrls) {
-      if (!contact.urls.includes(url)) {
-        contact.urls.push(url);
-      }
+      addTypedValue(contact.urls, typedValue(url));
     }
 
     // Add organizations
@@ -583,555 +1393,4167 @@ function normalizeEmail(email: string): string {
   return email.toLowerCase().trim();
 }
 
-// ============================================================================
-// Contact Filtering
-// ============================================================================
-
-interface FilterResult {
-  keep: boolean;
-  reason: string;
+function typedValue(value: string): TypedValue {
+  return { value, types: [], label: '', pref: false };
 }
 
-function shouldFilterContact(contact: Contact): FilterResult {
-  const fn = contact.fn.trim();
-  const hasPhone = contact.phones.length > 0;
-  const hasEmail = contact.emails.length > 0;
-  const hasOrg = contact.org.length > 0 && contact.org.some(o => o.trim().length > 0);
-  const hasUrl = contact.urls.length > 0;
-  const hasAddress = contact.addresses.length > 0 && contact.addresses.some(a =>
-    a.streetAddress || a.locality || a.region || a.postalCode || a.countryName);
-  const hasTitle = !!contact.title.trim();
-  const hasNote = !!contact.note.trim();
-  const hasPhoto = !!contact.photo;
-  const hasBday = !!contact.bday;
-
-  // Check for first/last name
-  const hasFirstName = contact.n?.givenName?.trim();
-  const hasLastName = contact.n?.familyName?.trim();
-  const hasFullName = hasFirstName && hasLastName;
-  const hasSingleNameOnly = (hasFirstName || hasLastName) && !hasFullName;
+function valuesOf(list: TypedValue[]): string[] {
+  return list.map(item => item.value);
+}
 
-  // Check for Telegram label (always keep these)
-  const hasTelegram = Array.from(contact.otherProperties.entries()).some(([key, values]) =>
-    key.includes('LABEL') && values.some(v => v.toLowerCase().includes('telegram'))
-  );
-  if (hasTelegram) {
-    return { keep: true, reason: '' };
+/**
+ * Add a value to a phone/email/URL list. If the value is already present,
+ * its types, label and preferred flag are merged into the existing entry
+ * instead. Returns true if the value was new.
+ */
+function addTypedValue(list: TypedValue[], item: TypedValue): boolean {
+  const existing = list.find(v => v.value === item.value);
+  if (!existing) {
+    list.push({ ...item, types: [...item.types], extra: item.extra && [...item.extra] });
+    return true;
   }
 
-  // Rule 1: No name at all
-  if (!fn) {
-    return { keep: false, reason: 'No name (FN empty)' };
+  for (const type of item.types) {
+    if (!existing.types.includes(type)) {
+      existing.types.push(type);
+    }
   }
+  if (!existing.label && item.label) existing.label = item.label;
+  if (item.pref) existing.pref = true;
+  if (!existing.extra?.length && item.extra?.length) existing.extra = [...item.extra];
+  return false;
+}
 
-  // Rule 1b: Name is an email address
-  if (fn.includes('@') && fn.includes('.')) {
-    return { keep: false, reason: `Email as name: '${fn.slice(0, 40)}'` };
+/** All labels on a contact: grouped value labels plus any LABEL-like properties kept verbatim. */
+function contactLabels(contact: Contact): string[] {
+  const labels = [...contact.phones, ...contact.emails, ...contact.urls, ...contact.related, ...contact.addresses]
+    .map(item => item.label)
+    .filter(l => l);
+  for (const [key, lines] of contact.otherProperties) {
+    if (key.includes('LABEL')) {
+      labels.push(...lines.map(l => l.substring(l.indexOf(':') + 1)));
+    }
   }
-
-  // Rule 1c: Name contains mangled/garbage characters (backslash, braces, brackets)
-  // Note: pipe | is allowed (used for "Name | Company" format)
-  if (/\\/.test(fn) || /[{}[\]<>]/.test(fn)) {
-    return { keep: false, reason: `Mangled/garbage name: '${fn.slice(0, 40)}'` };
+  for (const group of contact.propertyGroups) {
+    for (const line of group) {
+      if (/^X-ABLABEL[;:]/i.test(line)) {
+        labels.push(line.substring(line.indexOf(':') + 1));
+      }
+    }
   }
+  return labels;
+}
 
-  // Rule 1d: Name contains quotes (usually address data parsed as name)
-  if (fn.includes('"')) {
-    return { keep: false, reason: `Quotes in name (address data): '${fn.slice(0, 40)}'` };
+// ============================================================================
+// Name Parsing
+// ============================================================================
+
+// Compared lower-cased with periods removed, so `Dr.` and `Ph.D.` match
+const HONORIFIC_PREFIXES = [
+  'mr', 'mrs', 'ms', 'miss', 'mx', 'dr', 'prof', 'professor', 'sir', 'dame',
+  'lord', 'lady', 'rev', 'revd', 'fr', 'hon', 'capt', 'col', 'gen', 'lt',
+  'maj', 'sgt', 'herr', 'frau', 'mme', 'mlle', 'sheikh', 'rabbi', 'imam',
+];
+const HONORIFIC_SUFFIXES = [
+  'jr', 'sr', 'ii', 'iii', 'iv', 'phd', 'md', 'dds', 'dmd', 'esq', 'mba',
+  'cpa', 'jd', 'rn', 'pe', 'obe', 'mbe', 'cbe', 'kbe', 'qc', 'kc', 'frs',
+];
+// Legal forms after a company name: `Acme, Inc.` is not `Inc Acme`
+const COMPANY_SUFFIXES = [
+  'inc', 'incorporated', 'ltd', 'limited', 'llc', 'llp', 'lp', 'plc', 'corp',
+  'corporation', 'co', 'company', 'gmbh', 'ag', 'kg', 'sa', 'sarl', 'sas',
+  'srl', 'spa', 'bv', 'nv', 'ab', 'as', 'oy', 'pty', 'kk',
+];
+
+// Words that start a family name: `van der Berg`, `de la Cruz`, `bin Salman`
+const SURNAME_PARTICLES = [
+  'van', 'von', 'de', 'der', 'den', 'del', 'della', 'di', 'da', 'das', 'dos',
+  'du', 'la', 'le', 'ter', 'ten', 'zu', 'bin', 'binti', 'bint', 'ibn', 'al', 'el',
+];
+// Particles written onto the name: `al-Sayed`, `d'Ormesson`
+const ATTACHED_PARTICLE = /^(al|el|d)['’-]\p{L}/iu;
+
+// Scripts whose names are written family name first
+const FAMILY_FIRST_NAME = /^[\p{Script=Han}\p{Script=Hangul}\p{Script=Hiragana}\p{Script=Katakana}ー・]+$/u;
+// Two-character family names; the rest are one character
+const COMPOUND_FAMILY_NAMES = [
+  '欧阳', '歐陽', '司马', '司馬', '诸葛', '諸葛', '上官', '东方', '東方', '皇甫',
+  '尉迟', '尉遲', '公孙', '公孫', '令狐', '慕容', '夏侯',
+  '남궁', '황보', '제갈', '선우', '독고', '사공', '서문',
+];
+
+function nameWordKey(word: string): string {
+  return word.replace(/\./g, '').toLowerCase();
+}
+
+/**
+ * Split a single family-name-first word with no space in it. Chinese and
+ * Korean family names are one character, or two from a known list; four
+ * Han characters are read as two and two. Anything else, including names
+ * with kana, cannot be split safely.
+ */
+function splitFamilyFirstWord(word: string): { family: string; given: string } | null {
+  const chars = Array.from(word);
+  const hangul = /^\p{Script=Hangul}+$/u.test(word);
+  const han = /^\p{Script=Han}+$/u.test(word);
+  if ((!hangul && !han) || chars.length < 2 || chars.length > 4) return null;
+
+  let familyLength = 1;
+  if (chars.length >= 3 && COMPOUND_FAMILY_NAMES.includes(chars.slice(0, 2).join(''))) {
+    familyLength = 2;
+  } else if (han && chars.length === 4) {
+    familyLength = 2;
   }
+  return { family: chars.slice(0, familyLength).join(''), given: chars.slice(familyLength).join('') };
+}
 
-  // Rule 1d: Name is too long (likely garbage data)
-  if (fn.length > 50) {
-    return { keep: false, reason: `Name too long (${fn.length} chars)` };
+/**
+ * Split a display name into vCard N components: honorific prefixes
+ * (`Dr.`), suffixes (`Jr.`, `PhD`, also after commas), `Last, First`
+ * inversion where what follows the comma could be given names and is not
+ * a company's legal form (`Acme, Inc.`), surname particles (`Maria van
+ * der Berg` has the family name `van der Berg`) and family-name-first
+ * order for Chinese, Japanese and Korean names. A single word is a given
+ * name.
+ */
+function parsePersonName(fn: string): NonNullable<Contact['n']> {
+  const name = { familyName: '', givenName: '', additionalNames: '', honorificPrefixes: '', honorificSuffixes: '' };
+  const isPrefix = (word: string) => HONORIFIC_PREFIXES.includes(nameWordKey(word));
+  const isSuffix = (word: string) => HONORIFIC_SUFFIXES.includes(nameWordKey(word));
+
+  // Suffixes after commas: "John Smith, Jr., PhD"
+  const parts = fn.replace(/\s+/g, ' ').split(',').map(p => p.trim()).filter(p => p);
+  const suffixes: string[] = [];
+  while (parts.length > 1 && parts[parts.length - 1].split(' ').every(isSuffix)) {
+    suffixes.unshift(parts.pop()!);
   }
 
-  // Rule 1e: Name looks like a phone number
-  const fnDigitsOnly = fn.replace(/[\s\-\.\(\)\+]/g, '');
-  if (/^\d{7,}$/.test(fnDigitsOnly)) {
-    return { keep: false, reason: `Phone number as name: '${fn}'` };
+  // "Smith, John" puts the family name first
+  let invertedFamily = '';
+  const afterComma = parts.length === 2 ? parts[1].split(' ').filter(w => !isPrefix(w)) : [];
+  if (parts.length === 2 && afterComma.length <= 2 && !afterComma.some(w => COMPANY_SUFFIXES.includes(nameWordKey(w)))) {
+    invertedFamily = parts.shift()!;
+  }
+  const words = parts.join(' ').split(' ').filter(w => w);
+
+  const prefixes: string[] = [];
+  while (words.length > 1 && isPrefix(words[0])) prefixes.push(words.shift()!);
+  while (words.length > 1 && isSuffix(words[words.length - 1])) suffixes.unshift(words.pop()!);
+  name.honorificPrefixes = prefixes.join(' ');
+  name.honorificSuffixes = suffixes.join(' ');
+
+  if (invertedFamily) {
+    name.familyName = invertedFamily;
+    name.givenName = words[0] || '';
+    name.additionalNames = words.slice(1).join(' ');
+    return name;
   }
 
-  // Rule 1f: Gibberish/random alphanumeric name (e.g., "D7k5wt3q46")
-  if (/^[a-zA-Z0-9]+$/.test(fn) && /\d/.test(fn) && /[a-zA-Z]/.test(fn) && !fn.includes(' ')) {
-    // Exclude likely usernames with just trailing numbers (e.g., "john123")
-    const isLikelyUsername = /^[a-zA-Z]+\d{1,4}$/.test(fn);
-    if (!isLikelyUsername) {
-      return { keep: false, reason: `Gibberish name: '${fn}'` };
-    }
+  if (words.length > 0 && words.every(w => FAMILY_FIRST_NAME.test(w))) {
+    const split = words.length === 1 ? splitFamilyFirstWord(words[0]) : { family: words[0], given: words.slice(1).join(' ') };
+    name.familyName = split?.family || '';
+    name.givenName = split?.given || words[0];
+    return name;
   }
 
-  // Rule 1g: Very short name (<=3 chars) without phone number
-  if (fn.length > 0 && fn.length <= 3 && !hasPhone) {
-    return { keep: false, reason: `Very short name (${fn.length} chars): '${fn}'` };
+  if (words.length < 2) {
+    name.givenName = words[0] || '';
+    return name;
   }
 
-  // Rule 1h: Lowercase single word name without phone (likely username/handle)
-  if (/^[a-z]/.test(fn) && !fn.includes(' ') && !hasPhone) {
-    return { keep: false, reason: `Lowercase single word: '${fn}'` };
+  // The family name starts at the first particle after the given name, or is the last word
+  let familyStart = words.length - 1;
+  for (let i = 1; i < words.length - 1; i++) {
+    if (SURNAME_PARTICLES.includes(words[i].toLowerCase()) || ATTACHED_PARTICLE.test(words[i])) {
+      familyStart = i;
+      break;
+    }
   }
+  name.givenName = words[0];
+  name.additionalNames = words.slice(1, familyStart).join(' ');
+  name.familyName = words.slice(familyStart).join(' ');
+  return name;
+}
 
-  // Rule 1i: Name is just initials (2+ words, each <=2 chars)
-  const nameWords = fn.split(/\s+/);
-  if (nameWords.length >= 2 && nameWords.every(w => w.length <= 2)) {
-    return { keep: false, reason: `Initials only: '${fn}'` };
+interface DisplayNameParts {
+  name: string;
+  org: string;
+  title: string;
+  // Whether the form alone says the extra text is a company: a pipe, an @,
+  // or `Title at Company`. `Anna (Mom)` and `Mike - Plumber` need evidence.
+  certain: boolean;
+}
+
+// Words after a dash or in parentheses that annotate a name rather than name a company
+const NAME_ANNOTATIONS = ['work', 'home', 'mobile', 'cell', 'old', 'new', 'personal', 'private', 'office'];
+
+/** `CTO at Acme` or `CTO @ Acme` is a title and a company; anything else a company. */
+function splitTitleAtCompany(text: string): { org: string; title: string } {
+  const match = text.match(/^(.+?)\s+(?:at|@)\s+(.+)$/i);
+  return match ? { title: match[1].trim(), org: match[2].trim() } : { title: '', org: text.trim() };
+}
+
+/**
+ * Recognize a company, and maybe a title, written into a display name:
+ * `Igor | Hype Talent`, `Igor | Recruiter | Hype Talent`, `Jane Doe - CTO
+ * at Acme`, `Jane Doe (Acme)` and `Jane Doe @ Acme`. Returns null when the
+ * name has none, or when what is left would not be a name.
+ */
+function splitDisplayName(fn: string): DisplayNameParts | null {
+  let name = '';
+  let rest = { org: '', title: '' };
+  let certain = true;
+  const isAnnotation = (text: string) => /^\d+$/.test(text) || NAME_ANNOTATIONS.includes(text.toLowerCase());
+
+  const pipes = fn.split('|').map(p => p.trim()).filter(p => p);
+  const dash = fn.match(/^(.+?)\s+[-–—]\s+(.+)$/);
+  const at = fn.match(/^(.+?)\s+@\s*(.+)$/);
+  const parens = fn.match(/^(.+?)\s*\(([^()]+)\)$/);
+  if (pipes.length >= 2) {
+    name = pipes[0];
+    rest = pipes.length === 2
+      ? splitTitleAtCompany(pipes[1])
+      : { title: pipes.slice(1, -1).join(', '), org: pipes[pipes.length - 1] };
+  } else if (dash) {
+    if (isAnnotation(dash[2].trim())) return null;
+    name = dash[1];
+    rest = splitTitleAtCompany(dash[2]);
+    certain = !!rest.title;
+  } else if (at) {
+    name = at[1];
+    rest = { title: '', org: at[2].trim() };
+  } else if (parens) {
+    const inner = parens[2].trim();
+    if (isAnnotation(inner)) return null;
+    name = parens[1];
+    rest = splitTitleAtCompany(inner);
+    certain = !!rest.title;
   }
 
-  // Rule 1j: Name has parenthetical number (often age/metadata)
-  if (/\(\d+\)/.test(fn)) {
-    return { keep: false, reason: `Parenthetical number in name: '${fn}'` };
+  name = name.trim();
+  if (!rest.org || !isParseableName(name)) return null;
+  return { name, ...rest, certain };
+}
+
+/** Whether a company name is the contact's organization or the name of one of its email domains. */
+function isContactCompany(contact: Contact, company: string): boolean {
+  const key = company.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+  if (!key) return false;
+  if (contact.org.some(o => o.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '') === key)) return true;
+  return emailDomains(contact).some(domain => domain.split('.').includes(key));
+}
+
+/**
+ * Move a company and title out of the display name into ORG and TITLE.
+ * `Name (Company)` and `Name - Company` are only split when the company is
+ * the contact's organization or email domain; otherwise the text may be a
+ * note (`Anna (Mom)`) and FN is left alone. Skipped when the contact
+ * already has a different organization or title, so nothing is
+ * overwritten. An N that only repeated the display name is dropped, to be
+ * parsed again from the clean name.
+ */
+function splitCompanyFromName(contact: Contact): void {
+  const parts = splitDisplayName(contact.fn);
+  if (!parts) return;
+  if (!parts.certain && !isContactCompany(contact, parts.org)) return;
+  const same = (a: string, b: string) => !a || !b || a.toLowerCase() === b.toLowerCase();
+  if (!same(contact.org[0] || '', parts.org) || !same(contact.title, parts.title)) return;
+
+  if (contact.n && formatNameForAudit(contact.n) === contact.fn) {
+    contact.n = undefined;
   }
+  contact.fn = parts.name;
+  if (contact.org.length === 0) contact.org = [parts.org];
+  if (!contact.title) contact.title = parts.title;
+}
 
-  // Rule 1k: Name ends with domain TLD (e.g., "Guru.com")
-  if (/\.(com|org|net|io|co|uk|de|nl)$/i.test(fn)) {
-    return { keep: false, reason: `Name ends with TLD: '${fn}'` };
+/** Whether FN reads as a person's name at all: it has letters and is not an email address. */
+function isParseableName(fn: string): boolean {
+  return /\p{L}/u.test(fn) && !fn.includes('@');
+}
+
+// ============================================================================
+// Name Normalization
+// ============================================================================
+
+// Kept upper-case when a shouting or lower-case name is re-cased
+const NAME_ACRONYMS = [
+  'II', 'III', 'IV', 'MD', 'DDS', 'CPA', 'MBA', 'OBE', 'MBE', 'CBE', 'KBE', 'QC', 'KC',
+  'CEO', 'CTO', 'CFO', 'HR', 'IT', 'PR', 'IBM', 'BBC', 'NASA', 'USA', 'UK', 'EU', 'LLC', 'LTD',
+];
+// Words with casing of their own
+const NAME_CASINGS: Record<string, string> = { phd: 'PhD', jr: 'Jr', sr: 'Sr' };
+
+const ZERO_WIDTH = /[\u200B-\u200D\u2060\uFEFF]/g;
+
+function cleanNameWhitespace(value: string): string {
+  return value.replace(ZERO_WIDTH, '').replace(/\s+/g, ' ').trim();
+}
+
+/** Whether a value has cased letters and all of them are upper-case, or all lower-case. */
+function isSingleCase(value: string): boolean {
+  const hasCase = value.toUpperCase() !== value.toLowerCase();
+  return hasCase && (value === value.toUpperCase() || value === value.toLowerCase());
+}
+
+function capitalizeNamePart(part: string): string {
+  const chars = Array.from(part.toLowerCase());
+  if (chars.length === 0) return part;
+  chars[0] = chars[0].toUpperCase();
+  // Initials: J.R.R.
+  for (let i = 1; i < chars.length; i++) {
+    if (chars[i - 1] === '.') chars[i] = chars[i].toUpperCase();
   }
+  // McDonald, and O'Brien or D'Angelo after a single letter
+  if (chars.length > 2 && chars[0] === 'M' && chars[1] === 'c') chars[2] = chars[2].toUpperCase();
+  if (chars.length > 2 && /['’]/.test(chars[1])) chars[2] = chars[2].toUpperCase();
+  return chars.join('');
+}
 
-  // Rule 2: Check for metadata garbage prefixes
-  const garbagePrefixes = [
-    'Work:', 'Home:', 'Email:', 'E-mail', 'Organization:',
-    'Note:', 'Home Page:', 'First Name:', 'Research',
-    'SOURCE:', 'US-"', 'android-', 'Normal', 'My Contacts'
-  ];
-  for (const prefix of garbagePrefixes) {
-    if (fn.startsWith(prefix)) {
-      return { keep: false, reason: `Metadata garbage: starts with '${prefix}'` };
+/**
+ * Re-case a name written all upper-case or all lower-case: `JOHN MCDONALD`
+ * becomes `John McDonald`, `mary o'brien-smith` becomes `Mary O'Brien-Smith`.
+ * Known acronyms stay upper-case and surname particles lower-case where a
+ * name follows them and they are not the first word, which for a family
+ * name (`van der Berg`) they may be; `KEVIN DU` is `Kevin Du`. Names in
+ * mixed case are left as written.
+ */
+function normalizeNameCase(value: string, familyName = false): string {
+  if (!isSingleCase(value)) return value;
+
+  const words = value.split(' ');
+  return words.map((word, index) => {
+    // Emails, URLs and domains are not names
+    if (/[@/]|\p{L}\.\p{L}{2,}/u.test(word)) return word;
+    const lower = word.toLowerCase();
+    const key = lower.replace(/\./g, '');
+    if (NAME_ACRONYMS.includes(key.toUpperCase())) return word.toUpperCase();
+    if (NAME_CASINGS[key]) return word.replace(/[^.]+/, NAME_CASINGS[key]);
+    const particleAllowed = index > 0 || familyName;
+    if (particleAllowed && index < words.length - 1 && SURNAME_PARTICLES.includes(lower)) return lower;
+    // al-Sayed, d'Ormesson
+    if (particleAllowed && ATTACHED_PARTICLE.test(word)) {
+      const split = lower.search(/['’-]/) + 1;
+      return lower.slice(0, split) + capitalizeNamePart(lower.slice(split));
     }
+    return lower.split('-').map(capitalizeNamePart).join('-');
+  }).join(' ');
+}
+
+/**
+ * Clean whitespace and zero-width characters from FN and N, and re-case
+ * shouting and lower-case names. The changes are recorded as a repair;
+ * returns whether anything changed.
+ */
+function normalizeContactName(contact: Contact): boolean {
+  const before = fieldSnapshot(contact);
+  contact.fn = normalizeNameCase(cleanNameWhitespace(contact.fn));
+  if (contact.n) {
+    const n = contact.n;
+    n.givenName = normalizeNameCase(cleanNameWhitespace(n.givenName));
+    n.additionalNames = normalizeNameCase(cleanNameWhitespace(n.additionalNames));
+    n.familyName = normalizeNameCase(cleanNameWhitespace(n.familyName), true);
+    n.honorificPrefixes = normalizeNameCase(cleanNameWhitespace(n.honorificPrefixes));
+    n.honorificSuffixes = normalizeNameCase(cleanNameWhitespace(n.honorificSuffixes));
   }
 
-  // Rule 3: Common generic names
-  const commonNames = [
-    'help', 'hello', 'admin', 'support', 'info', 'contact', 'service',
-    'team', 'sales', 'marketing', 'noreply', 'no-reply', 'donotreply',
-    'test', 'demo', 'example', 'sample', 'default', 'user', 'guest',
-    'anonymous', 'unknown', 'temp', 'temporary'
-  ];
-  const fullNameLower = fn.toLowerCase();
-  const firstNameLower = (hasFirstName || '').toLowerCase();
-  const lastNameLower = (hasLastName || '').toLowerCase();
+  const repairs = contact.repairs.length;
+  recordRepair(contact, 'name-normalization', before);
+  return contact.repairs.length > repairs;
+}
 
-  if (commonNames.includes(fullNameLower) ||
-      commonNames.includes(firstNameLower) ||
-      commonNames.includes(lastNameLower)) {
-    return { keep: false, reason: `Generic name: '${fn}'` };
-  }
+// ============================================================================
+// Date Normalization
+// ============================================================================
 
-  // Rule 3b: Short single-word name with only email (no phone) - low quality
-  // Catches entries like "ags" with just an email
-  const fnWords = fn.split(/\s+/).filter(w => w.length > 0);
-  const isSingleWord = fnWords.length === 1;
-  const isShortName = fn.length <= 6;
-  const hasOnlyEmail = hasEmail && !hasPhone && !hasOrg && !hasTitle && !hasAddress && !hasBday;
+/** A birthday, anniversary or other date; year is null when the source left it out. */
+interface ContactDate {
+  year: number | null;
+  month: number;
+  day: number;
+}
+
+// Apple writes dates without a year in this year, marked X-APPLE-OMIT-YEAR=1604
+const APPLE_NO_YEAR = 1604;
 
-  if (isSingleWord && isShortName && hasOnlyEmail && !hasFullName) {
-    return { keep: false, reason: `Short single name '${fn}' with only email` };
+/**
+ * Read a date as sources write it: `1990-04-15`, `19900415`, `--0415`,
+ * `--04-15`, `1604-04-15` (Apple, no year), an ISO date-time, or `15/04/1990`
+ * and `15.04.1990`. Slashed dates are read day first unless `order` says
+ * month first, except where only one reading is a valid date. A two-digit
+ * year is the latest one not after this year, so `90` is 1990 and `05` is
+ * 2005. Returns null for anything else.
+ */
+function parseContactDate(value: string, order: 'dmy' | 'mdy' = 'dmy'): ContactDate | null {
+  const text = value.trim().replace(/T[\d:.]*(Z|[+-]\d{2}:?\d{2})?$/, '');
+  let year: number | null = null;
+  let month: number;
+  let day: number;
+
+  const iso = text.match(/^(\d{4})-?(\d{2})-?(\d{2})$/);
+  const noYear = text.match(/^--(\d{2})-?(\d{2})$/);
+  const slashed = text.match(/^(\d{1,2})[/.](\d{1,2})[/.](\d{4}|\d{2})$/);
+  if (iso) {
+    year = Number(iso[1]);
+    month = Number(iso[2]);
+    day = Number(iso[3]);
+  } else if (noYear) {
+    month = Number(noYear[1]);
+    day = Number(noYear[2]);
+  } else if (slashed) {
+    const [first, second] = [Number(slashed[1]), Number(slashed[2])];
+    const monthFirst = second > 12 || (order === 'mdy' && first <= 12);
+    month = monthFirst ? first : second;
+    day = monthFirst ? second : first;
+    year = Number(slashed[3]);
+    if (slashed[3].length === 2) {
+      const thisYear = new Date().getFullYear();
+      year += Math.floor(thisYear / 100) * 100;
+      if (year > thisYear) year -= 100;
+    }
+  } else {
+    return null;
   }
 
-  // Rule 3c: Single word name (no last name) with only email - likely low quality
-  if (isSingleWord && !hasFullName && hasOnlyEmail && !hasUrl) {
-    return { keep: false, reason: `Single word name '${fn}' with only email` };
+  if (year === APPLE_NO_YEAR) year = null;
+  const leap = year === null || (year % 4 === 0 && (year % 100 !== 0 || year % 400 === 0));
+  const daysInMonth = [31, leap ? 29 : 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth[month - 1]) return null;
+  return { year, month, day };
+}
+
+/**
+ * Write a date as a target expects it: `iso` (`1990-04-15`, `--04-15`),
+ * `basic` for vCard 4.0 (`19900415`, `--0415`), `apple` (`1604-04-15`
+ * without a year) or `outlook` (`4/15/1990`, nothing without a year).
+ */
+function formatContactDate(date: ContactDate, style: 'iso' | 'basic' | 'apple' | 'outlook'): string {
+  const mm = String(date.month).padStart(2, '0');
+  const dd = String(date.day).padStart(2, '0');
+  const yyyy = date.year === null ? '' : String(date.year).padStart(4, '0');
+  switch (style) {
+    case 'iso': return yyyy ? `${yyyy}-${mm}-${dd}` : `--${mm}-${dd}`;
+    case 'basic': return yyyy ? `${yyyy}${mm}${dd}` : `--${mm}${dd}`;
+    case 'apple': return `${yyyy || APPLE_NO_YEAR}-${mm}-${dd}`;
+    case 'outlook': return yyyy ? `${date.month}/${date.day}/${yyyy}` : '';
   }
+}
 
-  // Rule 4: First name equals last name (single word duplicated)
-  if (hasFirstName && hasLastName) {
-    const first = hasFirstName.trim().toLowerCase();
-    const last = hasLastName.trim().toLowerCase();
-    if (first === last && !first.includes(' ')) {
-      return { keep: false, reason: `Duplicate name: '${first}' = '${last}'` };
-    }
+/** A date in its stored form, ISO 8601; values that are not dates are kept as written. */
+function normalizeDateValue(value: string, order: 'dmy' | 'mdy' = 'dmy'): string {
+  const date = parseContactDate(value, order);
+  return date ? formatContactDate(date, 'iso') : value.trim();
+}
+
+/** A BDAY, ANNIVERSARY or X-ABDATE property line with its date written for the target. */
+function datePropertyLine(name: string, value: string, format: VCardFormat): string {
+  const date = parseContactDate(value);
+  if (!date) return `${name}:${value}`;
+  // Google's own export writes 1990-04-15, and --0415 without a year
+  if (format === 'vcard4' || (format === 'google' && date.year === null)) {
+    return `${name}:${formatContactDate(date, 'basic')}`;
   }
+  if (format === 'apple' && date.year === null) {
+    return `${name};X-APPLE-OMIT-YEAR=${APPLE_NO_YEAR}:${formatContactDate(date, 'apple')}`;
+  }
+  return `${name}:${formatContactDate(date, 'iso')}`;
+}
 
-  // Rule 5: Only has name, nothing else
-  const hasOnlyName = !hasPhone && !hasEmail && !hasUrl && !hasAddress &&
-                       !hasOrg && !hasTitle && !hasNote && !hasPhoto && !hasBday;
-  if (hasOnlyName) {
-    return { keep: false, reason: 'Only has name, no contact info' };
+/**
+ * A date line kept as written (an X-ABDATE of a property group, or an
+ * ungrouped date property such as DEATHDATE) in stored form: its date
+ * normalized and the omit-year marker dropped, since the stored date says
+ * so itself.
+ */
+function normalizeDateLine(line: string): string {
+  const colon = line.indexOf(':');
+  const header = line.substring(0, colon).replace(/;X-APPLE-OMIT-YEAR=[^;]*/i, '');
+  return `${header}:${normalizeDateValue(line.substring(colon + 1))}`;
+}
+
+/** Date properties without a field of their own: Apple's labeled dates, RFC 6474's DEATHDATE and anniversaries other apps write. */
+function isDateLine(line: string): boolean {
+  return /^(X-ABDATE|DEATHDATE|X-ANNIVERSARY|X-EVOLUTION-ANNIVERSARY)[;:]/i.test(line);
+}
+
+/**
+ * Merge a date field: a date with a year replaces the same day without
+ * one; any other difference is a conflict and the primary's date is kept.
+ */
+function mergeDateValue(primary: string, secondary: string): { value: string; conflict: boolean } {
+  if (!primary || !secondary || primary === secondary) return { value: primary || secondary, conflict: false };
+  const a = parseContactDate(primary);
+  const b = parseContactDate(secondary);
+  if (!a || !b || a.month !== b.month || a.day !== b.day) return { value: primary, conflict: true };
+  if (a.year === null) return { value: secondary, conflict: false };
+  return { value: primary, conflict: b.year !== null && b.year !== a.year };
+}
+
+// ============================================================================
+// Phone Number Canonicalization
+// ============================================================================
+
+/**
+ * Numbering-plan metadata for canonicalizing numbers to E.164 without
+ * network access. `trunkPrefix` is dialled before national numbers and
+ * dropped in E.164 (empty where the leading 0 is part of the number, as in
+ * Italy); `lengths` are the valid national significant number lengths;
+ * `names` are country spellings used to infer the region from addresses.
+ */
+interface NumberingPlan {
+  region: string;
+  countryCode: string;
+  trunkPrefix: string;
+  internationalPrefix: string;
+  lengths: number[];
+  names: string[];
+}
+
+const NUMBERING_PLANS: NumberingPlan[] = [
+  { region: 'US', countryCode: '1', trunkPrefix: '1', internationalPrefix: '011', lengths: [10],
+    names: ['united states', 'united states of america', 'usa', 'u.s.a.', 'u.s.', 'america'] },
+  { region: 'CA', countryCode: '1', trunkPrefix: '1', internationalPrefix: '011', lengths: [10], names: ['canada'] },
+  { region: 'GB', countryCode: '44', trunkPrefix: '0', internationalPrefix: '00', lengths: [9, 10],
+    names: ['united kingdom', 'uk', 'great britain', 'england', 'scotland', 'wales', 'northern ireland'] },
+  { region: 'IE', countryCode: '353', trunkPrefix: '0', internationalPrefix: '00', lengths: [7, 8, 9], names: ['ireland'] },
+  { region: 'FR', countryCode: '33', trunkPrefix: '0', internationalPrefix: '00', lengths: [9], names: ['france'] },
+  { region: 'DE', countryCode: '49', trunkPrefix: '0', internationalPrefix: '00', lengths: [6, 7, 8, 9, 10, 11],
+    names: ['germany', 'deutschland'] },
+  { region: 'NL', countryCode: '31', trunkPrefix: '0', internationalPrefix: '00', lengths: [9],
+    names: ['netherlands', 'the netherlands', 'nederland', 'holland'] },
+  { region: 'BE', countryCode: '32', trunkPrefix: '0', internationalPrefix: '00', lengths: [8, 9],
+    names: ['belgium', 'belgië', 'belgique'] },
+  { region: 'LU', countryCode: '352', trunkPrefix: '', internationalPrefix: '00', lengths: [6, 7, 8, 9, 10, 11],
+    names: ['luxembourg'] },
+  { region: 'CH', countryCode: '41', trunkPrefix: '0', internationalPrefix: '00', lengths: [9],
+    names: ['switzerland', 'schweiz', 'suisse', 'svizzera'] },
+  { region: 'AT', countryCode: '43', trunkPrefix: '0', internationalPrefix: '00', lengths: [7, 8, 9, 10, 11, 12, 13],
+    names: ['austria', 'österreich'] },
+  { region: 'IT', countryCode: '39', trunkPrefix: '', internationalPrefix: '00', lengths: [6, 7, 8, 9, 10, 11],
+    names: ['italy', 'italia'] },
+  { region: 'ES', countryCode: '34', trunkPrefix: '', internationalPrefix: '00', lengths: [9], names: ['spain', 'españa'] },
+  { region: 'PT', countryCode: '351', trunkPrefix: '', internationalPrefix: '00', lengths: [9], names: ['portugal'] },
+  { region: 'DK', countryCode: '45', trunkPrefix: '', internationalPrefix: '00', lengths: [8], names: ['denmark', 'danmark'] },
+  { region: 'NO', countryCode: '47', trunkPrefix: '', internationalPrefix: '00', lengths: [8], names: ['norway', 'norge'] },
+  { region: 'SE', countryCode: '46', trunkPrefix: '0', internationalPrefix: '00', lengths: [7, 8, 9], names: ['sweden', 'sverige'] },
+  { region: 'FI', countryCode: '358', trunkPrefix: '0', internationalPrefix: '00', lengths: [5, 6, 7, 8, 9, 10, 11, 12],
+    names: ['finland', 'suomi'] },
+  { region: 'PL', countryCode: '48', trunkPrefix: '', internationalPrefix: '00', lengths: [9], names: ['poland', 'polska'] },
+  { region: 'CZ', countryCode: '420', trunkPrefix: '', internationalPrefix: '00', lengths: [9],
+    names: ['czech republic', 'czechia', 'česko'] },
+  { region: 'GR', countryCode: '30', trunkPrefix: '', internationalPrefix: '00', lengths: [10], names: ['greece'] },
+  { region: 'HU', countryCode: '36', trunkPrefix: '06', internationalPrefix: '00', lengths: [8, 9], names: ['hungary', 'magyarország'] },
+  { region: 'RO', countryCode: '40', trunkPrefix: '0', internationalPrefix: '00', lengths: [9], names: ['romania', 'românia'] },
+  { region: 'UA', countryCode: '380', trunkPrefix: '0', internationalPrefix: '00', lengths: [9], names: ['ukraine', 'україна'] },
+  { region: 'RU', countryCode: '7', trunkPrefix: '8', internationalPrefix: '810', lengths: [10],
+    names: ['russia', 'russian federation', 'россия'] },
+  { region: 'TR', countryCode: '90', trunkPrefix: '0', internationalPrefix: '00', lengths: [10], names: ['turkey', 'türkiye'] },
+  { region: 'IL', countryCode: '972', trunkPrefix: '0', internationalPrefix: '00', lengths: [8, 9], names: ['israel'] },
+  { region: 'AE', countryCode: '971', trunkPrefix: '0', internationalPrefix: '00', lengths: [8, 9],
+    names: ['united arab emirates', 'uae'] },
+  { region: 'SA', countryCode: '966', trunkPrefix: '0', internationalPrefix: '00', lengths: [9], names: ['saudi arabia'] },
+  { region: 'IN', countryCode: '91', trunkPrefix: '0', internationalPrefix: '00', lengths: [10], names: ['india'] },
+  { region: 'PK', countryCode: '92', trunkPrefix: '0', internationalPrefix: '00', lengths: [9, 10], names: ['pakistan'] },
+  { region: 'CN', countryCode: '86', trunkPrefix: '0', internationalPrefix: '00', lengths: [10, 11],
+    names: ['china', "people's republic of china", '中国'] },
+  { region: 'HK', countryCode: '852', trunkPrefix: '', internationalPrefix: '001', lengths: [8], names: ['hong kong'] },
+  { region: 'TW', countryCode: '886', trunkPrefix: '0', internationalPrefix: '002', lengths: [8, 9], names: ['taiwan'] },
+  { region: 'JP', countryCode: '81', trunkPrefix: '0', internationalPrefix: '010', lengths: [9, 10], names: ['japan', '日本'] },
+  { region: 'KR', countryCode: '82', trunkPrefix: '0', internationalPrefix: '001', lengths: [8, 9, 10],
+    names: ['south korea', 'korea', 'republic of korea'] },
+  { region: 'SG', countryCode: '65', trunkPrefix: '', internationalPrefix: '000', lengths: [8], names: ['singapore'] },
+  { region: 'MY', countryCode: '60', trunkPrefix: '0', internationalPrefix: '00', lengths: [9, 10], names: ['malaysia'] },
+  { region: 'TH', countryCode: '66', trunkPrefix: '0', internationalPrefix: '001', lengths: [8, 9], names: ['thailand'] },
+  { region: 'ID', countryCode: '62', trunkPrefix: '0', internationalPrefix: '001', lengths: [9, 10, 11, 12], names: ['indonesia'] },
+  { region: 'PH', countryCode: '63', trunkPrefix: '0', internationalPrefix: '00', lengths: [10], names: ['philippines'] },
+  { region: 'VN', countryCode: '84', trunkPrefix: '0', internationalPrefix: '00', lengths: [9, 10], names: ['vietnam', 'viet nam'] },
+  { region: 'AU', countryCode: '61', trunkPrefix: '0', internationalPrefix: '0011', lengths: [9], names: ['australia'] },
+  { region: 'NZ', countryCode: '64', trunkPrefix: '0', internationalPrefix: '00', lengths: [8, 9, 10], names: ['new zealand'] },
+  { region: 'ZA', countryCode: '27', trunkPrefix: '0', internationalPrefix: '00', lengths: [9], names: ['south africa'] },
+  { region: 'NG', countryCode: '234', trunkPrefix: '0', internationalPrefix: '009', lengths: [8, 10], names: ['nigeria'] },
+  { region: 'KE', countryCode: '254', trunkPrefix: '0', internationalPrefix: '000', lengths: [9], names: ['kenya'] },
+  { region: 'EG', countryCode: '20', trunkPrefix: '0', internationalPrefix: '00', lengths: [9, 10], names: ['egypt'] },
+  { region: 'MX', countryCode: '52', trunkPrefix: '', internationalPrefix: '00', lengths: [10], names: ['mexico', 'méxico'] },
+  { region: 'BR', countryCode: '55', trunkPrefix: '0', internationalPrefix: '00', lengths: [10, 11], names: ['brazil', 'brasil'] },
+  { region: 'AR', countryCode: '54', trunkPrefix: '0', internationalPrefix: '00', lengths: [10, 11], names: ['argentina'] },
+  { region: 'CL', countryCode: '56', trunkPrefix: '', internationalPrefix: '00', lengths: [9], names: ['chile'] },
+  { region: 'CO', countryCode: '57', trunkPrefix: '', internationalPrefix: '009', lengths: [10], names: ['colombia'] },
+  { region: 'PE', countryCode: '51', trunkPrefix: '0', internationalPrefix: '00', lengths: [8, 9], names: ['peru', 'perú'] },
+];
+
+const DEFAULT_PHONE_REGION = 'US';
+
+// International prefixes tried when a number is not valid as dialled in its region
+const COMMON_INTERNATIONAL_PREFIXES = ['00', '011'];
+
+function findNumberingPlan(region: string): NumberingPlan | undefined {
+  return NUMBERING_PLANS.find(p => p.region === region.toUpperCase());
+}
+
+function isValidNationalNumber(plan: NumberingPlan, national: string): boolean {
+  if (!plan.lengths.includes(national.length)) return false;
+  // North American area codes and exchanges never start with 0 or 1
+  if (plan.countryCode === '1') return /^[2-9]\d\d[2-9]/.test(national);
+  return true;
+}
+
+/** Digits after the country code, or null if no known country code matches. */
+function splitCountryCode(digits: string): { plan: NumberingPlan; national: string } | null {
+  for (let length = 1; length <= 3; length++) {
+    const code = digits.substring(0, length);
+    const plans = NUMBERING_PLANS.filter(p => p.countryCode === code);
+    if (plans.length === 0) continue;
+
+    const national = digits.substring(length);
+    const valid = plans.find(p => isValidNationalNumber(p, national));
+    return { plan: valid || plans[0], national };
   }
+  return null;
+}
 
-  // Rule 6: URL-only contacts (no phone or email)
-  if (hasUrl && !hasPhone && !hasEmail) {
-    // Allow if they have organization info
-    if (!hasOrg && !hasTitle) {
-      return { keep: false, reason: 'URL-only, no phone/email' };
+/**
+ * Canonicalize a phone number to E.164 (+14155551234). Numbers without a
+ * + are read in `region`: its international prefix (011 in the US, 00 in
+ * most of Europe) introduces a country code, and a trunk prefix (0, or 1 in
+ * North America) is dropped. Numbers that do not fit any known numbering
+ * plan are returned digit-normalized with `valid: false`.
+ */
+function canonicalizePhone(phone: string, region: string): { number: string; valid: boolean } {
+  const fallback = normalizePhone(phone);
+  // "+49 (0)30 ..." marks a trunk prefix that is not dialled from abroad
+  const digits = normalizePhone(phone.replace(/\(0\)/g, '')).replace(/\D/g, '');
+  if (!digits) return { number: fallback, valid: false };
+
+  const international = (rest: string) => {
+    const split = splitCountryCode(rest);
+    if (!split) return '';
+    const { plan, national } = split;
+    // A trunk prefix written after the country code is never part of the number
+    if (plan.trunkPrefix && national.startsWith(plan.trunkPrefix)) {
+      const stripped = national.substring(plan.trunkPrefix.length);
+      if (isValidNationalNumber(plan, stripped)) return `+${plan.countryCode}${stripped}`;
     }
-  }
+    return isValidNationalNumber(plan, national) ? `+${plan.countryCode}${national}` : '';
+  };
 
-  // Rule 7: LinkedIn-only contacts without other meaningful info
-  const hasOnlyLinkedIn = contact.urls.length > 0 &&
-    contact.urls.every(u => u.includes('linkedin'));
-  if (hasOnlyLinkedIn && !hasPhone && !hasEmail && !hasOrg && !hasTitle) {
-    return { keep: false, reason: 'LinkedIn URL only, no contact info' };
+  if (fallback.startsWith('+')) {
+    const number = international(digits);
+    return number ? { number, valid: true } : { number: fallback, valid: false };
   }
 
-  // Rule 8: Corporate domain emails - require phone to keep
-  // These are typically old LinkedIn imports or one-time email contacts
-  const corporateDomains = [
-    '@google.com', '@twitter.com', '@x.com', '@googlegroups.com',
-    '@facebook.com', '@meta.com', '@microsoft.com', '@amazon.com',
-    '@apple.com', '@netflix.com', '@uber.com', '@airbnb.com',
-    '@linkedin.com', '@salesforce.com', '@oracle.com'
-  ];
-  if (hasEmail) {
-    const hasCorporateEmail = contact.emails.some(email =>
-      corporateDomains.some(d => email.endsWith(d))
-    );
+  const plan = findNumberingPlan(region);
+  if (plan) {
+    if (digits.startsWith(plan.internationalPrefix)) {
+      const number = international(digits.substring(plan.internationalPrefix.length));
+      if (number) return { number, valid: true };
+    }
 
-    if (hasCorporateEmail && !hasPhone) {
-      // Corporate email without phone = low value contact (old LinkedIn, one-time email)
-      const corpEmail = contact.emails.find(e => corporateDomains.some(d => e.endsWith(d)));
-      return { keep: false, reason: `Corporate email (${corpEmail}) without phone` };
+    if (plan.trunkPrefix && digits.startsWith(plan.trunkPrefix)) {
+      const national = digits.substring(plan.trunkPrefix.length);
+      if (isValidNationalNumber(plan, national)) {
+        return { number: `+${plan.countryCode}${national}`, valid: true };
+      }
+    }
+    if (isValidNationalNumber(plan, digits)) {
+      return { number: `+${plan.countryCode}${digits}`, valid: true };
     }
   }
 
-  // Rule 9: Service/notification emails
-  const servicePatterns = [
-    'noreply', 'no-reply', 'donotreply', 'notification', 'alert',
-    'info@', 'support@', 'admin@', 'webmaster@', 'newsletter',
-    'updates@', 'news@', 'mailer@', 'daemon@', 'postmaster@'
-  ];
-  if (hasEmail && contact.emails.every(email => {
-    const localPart = email.split('@')[0].toLowerCase();
-    return servicePatterns.some(p => localPart.includes(p) || email.toLowerCase().includes(p));
-  })) {
-    if (!hasPhone && hasSingleNameOnly) {
-      return { keep: false, reason: 'Service email only with single name' };
+  // Dialled from abroad, e.g. 001 415 555 1234 in a US address book
+  for (const prefix of COMMON_INTERNATIONAL_PREFIXES) {
+    if (digits.startsWith(prefix)) {
+      const number = international(digits.substring(prefix.length));
+      if (number) return { number, valid: true };
     }
   }
 
-  // Rule 10: No name and no organization
-  if (!fn && !hasOrg) {
-    return { keep: false, reason: 'No name and no organization' };
+  return { number: fallback, valid: false };
+}
+
+/** The region of the first address with a recognizable country, else the default. */
+function inferPhoneRegion(contact: Contact, defaultRegion: string): string {
+  for (const addr of contact.addresses) {
+    const country = addr.countryName.trim().toLowerCase();
+    if (!country) continue;
+    const plan = NUMBERING_PLANS.find(p => p.region.toLowerCase() === country || p.names.includes(country));
+    if (plan) return plan.region;
+  }
+  return defaultRegion;
+}
+
+/**
+ * Rewrite every phone number of a contact in E.164. Numbers that become
+ * identical collapse into one entry with their labels merged; numbers that
+ * cannot be valid are kept as they were and flagged `invalid`.
+ */
+function canonicalizeContactPhones(contact: Contact, defaultRegion: string): void {
+  const region = inferPhoneRegion(contact, defaultRegion);
+  const phones: TypedValue[] = [];
+
+  for (const phone of contact.phones) {
+    const { number, valid } = canonicalizePhone(phone.value, region);
+    addTypedValue(phones, { ...phone, value: number, invalid: valid ? undefined : true });
   }
 
-  return { keep: true, reason: '' };
+  contact.phones = phones;
 }
 
 // ============================================================================
-// Deduplication
+// Contact Filtering
 // ============================================================================
 
-function createContactKey(contact: Contact): string {
-  // Create a normalized key for finding potential duplicates
-  const normalizedName = contact.fn.toLowerCase().replace(/[^a-z0-9]/g, '');
-  const primaryEmail = contact.emails[0] || '';
-  const primaryPhone = contact.phones[0] || '';
+/**
+ * Outcome of the filter for one contact. `rule` is the stable ID of the rule
+ * that decided (a built-in ID, a custom rule's id, or '' when no rule
+ * matched); `reason` is that rule's fixed description and `detail` the
+ * contact-specific part, so counts can be grouped by rule.
+ */
+interface FilterResult {
+  keep: boolean;
+  rule: string;
+  reason: string;
+  detail: string;
+  // When a keep or drop list decided: what the rules alone would have done
+  overrides?: FilterResult;
+  // When the quality score decided
+  score?: QualityScore;
+}
+
+/** One signal or rule that raised or lowered a contact's quality score. */
+interface ScoreFactor {
+  // Signal name (phone, photo, ...) or filter rule ID
+  factor: string;
+  weight: number;
+  detail: string;
+}
+
+/**
+ * A contact's quality score and its band: `keep` from scoring.keepAt up,
+ * `review` from scoring.reviewAt up (kept, but listed for a person to
+ * check), `drop` below.
+ */
+interface QualityScore {
+  total: number;
+  band: 'keep' | 'review' | 'drop';
+  factors: ScoreFactor[];
+}
 
-  return `${normalizedName}|${primaryEmail}|${primaryPhone}`;
+function formatQualityScore(score: QualityScore): string {
+  const factors = score.factors.map(f => `${f.factor} ${f.weight > 0 ? '+' : ''}${f.weight}`);
+  return `score ${score.total} (${factors.join(', ') || 'no signals'})`;
 }
 
-function normalizeNameForComparison(name: string): string {
-  return name
-    .toLowerCase()
-    .replace(/[^a-z\s]/g, '') // Remove non-letters except spaces
-    .replace(/\s+/g, ' ')     // Normalize whitespace
-    .trim();
+function formatFilterReason(result: FilterResult): string {
+  return result.detail ? `${result.reason}: ${result.detail}` : result.reason;
 }
 
-function areContactsDuplicates(a: Contact, b: Contact): boolean {
-  // Strong match: same email
-  const sharedEmails = a.emails.filter(e => b.emails.includes(e));
-  if (sharedEmails.length > 0) {
-    return true;
+/**
+ * Filter rule configuration. Every built-in rule has a stable ID and can be
+ * disabled or have its thresholds and word lists changed from a JSON rules
+ * file (--rules). Custom rules are predicates over contact fields.
+ */
+interface FilterConfig {
+  rules: Record<string, BuiltinRuleConfig>;
+  customRules: CustomRule[];
+  // Contacts that are always kept or always dropped, whatever the rules say
+  keepList: ListEntry[];
+  dropList: ListEntry[];
+  scoring: ScoringConfig;
+}
+
+interface ScoringConfig {
+  keepAt: number;
+  reviewAt: number;
+  // Weights of the positive signals; rule weights are the rules' `weight` parameter
+  signals: Record<string, number>;
+}
+
+// Google's built-in groups, which say nothing about the contact
+const SYSTEM_CATEGORIES = ['mycontacts', 'starred'];
+
+// Filter rule ID reported for contacts dropped on score alone, with no rule fired
+const LOW_SCORE_RULE_ID = 'low-score';
+
+interface BuiltinRuleConfig {
+  enabled: boolean;
+  [param: string]: unknown;
+}
+
+type ContactField =
+  | 'fn' | 'givenName' | 'familyName' | 'emails' | 'phones' | 'urls' | 'org'
+  | 'title' | 'note' | 'bday' | 'photo' | 'source' | 'locality' | 'countryName' | 'labels';
+
+interface FieldCondition {
+  field: ContactField;
+  equals?: string;
+  contains?: string;
+  startsWith?: string;
+  endsWith?: string;
+  matches?: string;
+  exists?: boolean;
+  minCount?: number;
+  maxCount?: number;
+}
+
+type RuleCondition =
+  | { all: RuleCondition[] }
+  | { any: RuleCondition[] }
+  | { not: RuleCondition }
+  | FieldCondition;
+
+interface CustomRule {
+  id: string;
+  action: 'keep' | 'drop';
+  reason?: string;
+  when: RuleCondition;
+}
+
+/** A keep-list or drop-list entry, identifying contacts by exactly one key. */
+interface ListEntry {
+  email?: string;
+  phone?: string;
+  uid?: string;
+  // Regular expression, tested case-insensitively against FN
+  name?: string;
+  // Free text for the person maintaining the list
+  note?: string;
+}
+
+const LIST_ENTRY_KEYS = ['email', 'phone', 'uid', 'name'] as const;
+
+// Filter rule IDs reported for contacts decided by the keep and drop lists
+const LIST_RULE_IDS = { keep: 'keep-list', drop: 'drop-list' };
+
+const CONTACT_FIELDS: ContactField[] = [
+  'fn', 'givenName', 'familyName', 'emails', 'phones', 'urls', 'org',
+  'title', 'note', 'bday', 'photo', 'source', 'locality', 'countryName', 'labels',
+];
+
+const DEFAULT_FILTER_CONFIG: FilterConfig = {
+  rules: {
+    'telegram-immunity': { enabled: true, labels: ['telegram'] },
+    'no-name': { enabled: true, weight: -10 },
+    'email-as-name': { enabled: true, weight: -8 },
+    'mangled-name': { enabled: true, weight: -8 },
+    'quotes-in-name': { enabled: true, weight: -6 },
+    'name-too-long': { enabled: true, weight: -6, maxLength: 50 },
+    'phone-as-name': { enabled: true, weight: -8, minDigits: 7 },
+    'gibberish-name': { enabled: true, weight: -6 },
+    'very-short-name': { enabled: true, weight: -4, maxLength: 3 },
+    'lowercase-handle': { enabled: true, weight: -4 },
+    'initials-only': { enabled: true, weight: -4, maxWordLength: 2 },
+    'parenthetical-number': { enabled: true, weight: -3 },
+    'name-ends-with-tld': { enabled: true, weight: -5, tlds: ['com', 'org', 'net', 'io', 'co', 'uk', 'de', 'nl'] },
+    'metadata-prefix': {
+      enabled: true,
+      weight: -8,
+      prefixes: [
+        'Work:', 'Home:', 'Email:', 'E-mail', 'Organization:',
+        'Note:', 'Home Page:', 'First Name:', 'Research',
+        'SOURCE:', 'US-"', 'android-', 'Normal', 'My Contacts'
+      ],
+    },
+    'generic-name': {
+      enabled: true,
+      weight: -5,
+      names: [
+        'help', 'hello', 'admin', 'support', 'info', 'contact', 'service',
+        'team', 'sales', 'marketing', 'noreply', 'no-reply', 'donotreply',
+        'test', 'demo', 'example', 'sample', 'default', 'user', 'guest',
+        'anonymous', 'unknown', 'temp', 'temporary'
+      ],
+    },
+    'short-single-name-email-only': { enabled: true, weight: -2, maxLength: 6 },
+    'single-name-email-only': { enabled: true, weight: -3 },
+    'duplicate-name': { enabled: true, weight: -4 },
+    'name-only': { enabled: true, weight: -6 },
+    'url-only': { enabled: true, weight: -5 },
+    'linkedin-only': { enabled: true, weight: -3 },
+    'corporate-email-no-phone': {
+      enabled: true,
+      weight: -4,
+      domains: [
+        '@google.com', '@twitter.com', '@x.com', '@googlegroups.com',
+        '@facebook.com', '@meta.com', '@microsoft.com', '@amazon.com',
+        '@apple.com', '@netflix.com', '@uber.com', '@airbnb.com',
+        '@linkedin.com', '@salesforce.com', '@oracle.com'
+      ],
+    },
+    'service-email-single-name': {
+      enabled: true,
+      weight: -5,
+      patterns: [
+        'noreply', 'no-reply', 'donotreply', 'notification', 'alert',
+        'info@', 'support@', 'admin@', 'webmaster@', 'newsletter',
+        'updates@', 'news@', 'mailer@', 'daemon@', 'postmaster@'
+      ],
+    },
+    'no-name-no-org': { enabled: true, weight: -5 },
+  },
+  customRules: [],
+  keepList: [],
+  dropList: [],
+  scoring: {
+    keepAt: 1,
+    reviewAt: -2,
+    signals: {
+      fullName: 2,
+      phone: 3,
+      email: 1,
+      address: 2,
+      birthday: 2,
+      photo: 2,
+      note: 1,
+      organization: 1,
+      // Per source beyond the first that has the same email or phone
+      extraSource: 2,
+      label: 1,
+    },
+  },
+};
+
+function ruleEnabled(config: FilterConfig, id: string): boolean {
+  return config.rules[id]?.enabled !== false;
+}
+
+function ruleNumber(config: FilterConfig, id: string, param: string): number {
+  return config.rules[id][param] as number;
+}
+
+function ruleList(config: FilterConfig, id: string, param: string): string[] {
+  return config.rules[id][param] as string[];
+}
+
+/**
+ * Apply a rules file on top of the defaults. Numeric and boolean parameters
+ * are replaced; list parameters are either replaced by an array or edited
+ * with { "add": [...], "remove": [...] }. Phone numbers on the keep and drop
+ * lists are canonicalized in `phoneRegion`, like the contacts' own.
+ */
+function loadFilterConfig(file: string, phoneRegion = DEFAULT_PHONE_REGION): FilterConfig {
+  let text: string;
+  try {
+    text = fs.readFileSync(file, 'utf-8');
+  } catch (err) {
+    throw new FileReadError(`Cannot read rules file ${file}: ${(err as Error).message}`);
+  }
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (err) {
+    throw new UsageError(`Invalid rules file ${file}: ${(err as Error).message}`);
   }
 
-  // Strong match: same phone
-  const sharedPhones = a.phones.filter(p => b.phones.includes(p));
-  if (sharedPhones.length > 0) {
-    return true;
+  const fail = (message: string): never => {
+    throw new UsageError(`Invalid rules file ${file}: ${message}`);
+  };
+
+  if (!isPlainObject(raw)) fail('expected a JSON object');
+  const input = raw as Record<string, unknown>;
+
+  const config: FilterConfig = {
+    rules: structuredClone(DEFAULT_FILTER_CONFIG.rules),
+    customRules: [],
+    keepList: [],
+    dropList: [],
+    scoring: structuredClone(DEFAULT_FILTER_CONFIG.scoring),
+  };
+
+  if (input.rules !== undefined) {
+    if (!isPlainObject(input.rules)) fail('"rules" must be an object');
+
+    for (const [id, overrides] of Object.entries(input.rules as Record<string, unknown>)) {
+      const rule = config.rules[id];
+      if (!rule) fail(`unknown rule '${id}'`);
+      if (typeof overrides === 'boolean') {
+        rule.enabled = overrides;
+        continue;
+      }
+      if (!isPlainObject(overrides)) fail(`rule '${id}' must be an object or boolean`);
+
+      for (const [param, value] of Object.entries(overrides as Record<string, unknown>)) {
+        if (!(param in rule)) fail(`rule '${id}' has no parameter '${param}'`);
+        const current = rule[param];
+
+        if (Array.isArray(current)) {
+          if (Array.isArray(value) && value.every(v => typeof v === 'string')) {
+            rule[param] = value;
+          } else if (isPlainObject(value)) {
+            const edit = value as { add?: unknown; remove?: unknown };
+            const add = edit.add ?? [];
+            const remove = edit.remove ?? [];
+            if (!isStringArray(add) || !isStringArray(remove)) {
+              fail(`'${id}.${param}' add/remove must be string arrays`);
+            }
+            rule[param] = [
+              ...(current as string[]).filter(v => !(remove as string[]).includes(v)),
+              ...(add as string[]).filter(v => !(current as string[]).includes(v)),
+            ];
+          } else {
+            fail(`'${id}.${param}' must be a string array or { add, remove }`);
+          }
+        } else if (typeof value !== typeof current) {
+          fail(`'${id}.${param}' must be a ${typeof current}`);
+        } else {
+          rule[param] = value;
+        }
+      }
+    }
   }
 
-  // Full name match - but only if both have meaningful full names
-  // This catches cases like "Shira Abel" appearing twice with different contact info
-  const aName = normalizeNameForComparison(a.fn);
-  const bName = normalizeNameForComparison(b.fn);
+  if (input.customRules !== undefined) {
+    if (!Array.isArray(input.customRules)) fail('"customRules" must be an array');
+
+    for (const [index, entry] of (input.customRules as unknown[]).entries()) {
+      if (!isPlainObject(entry)) fail(`customRules[${index}] must be an object`);
+      const rule = entry as Record<string, unknown>;
+      if (typeof rule.id !== 'string' || !rule.id) fail(`customRules[${index}] needs an "id"`);
+      const id = rule.id as string;
+      const reserved = [
+        ...Object.keys(DEFAULT_FILTER_CONFIG.rules), ...Object.values(LIST_RULE_IDS), REVIEW_RULE_ID, LOW_SCORE_RULE_ID,
+      ];
+      if (reserved.includes(id) || config.customRules.some(r => r.id === id)) {
+        fail(`custom rule id '${rule.id}' is already used`);
+      }
+      if (rule.action !== 'keep' && rule.action !== 'drop') {
+        fail(`custom rule '${rule.id}' action must be "keep" or "drop"`);
+      }
+      if (rule.reason !== undefined && typeof rule.reason !== 'string') {
+        fail(`custom rule '${rule.id}' reason must be a string`);
+      }
+      const problem = validateCondition(rule.when);
+      if (problem) fail(`custom rule '${rule.id}': ${problem}`);
+      config.customRules.push(rule as unknown as CustomRule);
+    }
+  }
 
-  // Require at least 2 words in the name to avoid matching "John" to "John"
-  const aWords = aName.split(' ').filter(w => w.length > 0);
-  const bWords = bName.split(' ').filter(w => w.length > 0);
+  if (input.scoring !== undefined) {
+    if (!isPlainObject(input.scoring)) fail('"scoring" must be an object');
+    const scoring = input.scoring as Record<string, unknown>;
+
+    for (const [key, value] of Object.entries(scoring)) {
+      if (key === 'signals') {
+        if (!isPlainObject(value)) fail('"scoring.signals" must be an object');
+        for (const [name, weight] of Object.entries(value as Record<string, unknown>)) {
+          if (!(name in config.scoring.signals)) fail(`unknown scoring signal '${name}'`);
+          if (typeof weight !== 'number') fail(`'scoring.signals.${name}' must be a number`);
+          config.scoring.signals[name] = weight as number;
+        }
+      } else if (key === 'keepAt' || key === 'reviewAt') {
+        if (typeof value !== 'number') fail(`'scoring.${key}' must be a number`);
+        config.scoring[key] = value as number;
+      } else {
+        fail(`"scoring" has unknown key '${key}'`);
+      }
+    }
+    if (config.scoring.reviewAt > config.scoring.keepAt) fail('"scoring.reviewAt" must not be above "scoring.keepAt"');
+  }
 
-  if (aWords.length >= 2 && bWords.length >= 2 && aName === bName) {
-    return true;
+  for (const list of ['keepList', 'dropList'] as const) {
+    if (input[list] === undefined) continue;
+    if (!Array.isArray(input[list])) fail(`"${list}" must be an array`);
+
+    for (const [index, item] of (input[list] as unknown[]).entries()) {
+      if (!isPlainObject(item)) fail(`${list}[${index}] must be an object`);
+      const entry = item as Record<string, unknown>;
+      const keys = LIST_ENTRY_KEYS.filter(key => key in entry);
+      if (keys.length !== 1) fail(`${list}[${index}] needs exactly one of ${LIST_ENTRY_KEYS.join(', ')}`);
+      for (const [key, value] of Object.entries(entry)) {
+        if (![...LIST_ENTRY_KEYS, 'note'].includes(key)) fail(`${list}[${index}] has unknown key '${key}'`);
+        if (typeof value !== 'string' || !value.trim()) fail(`${list}[${index}].${key} must be a non-empty string`);
+      }
+
+      const parsed: ListEntry = { ...(entry as ListEntry) };
+      if (parsed.email) parsed.email = parsed.email.trim().toLowerCase();
+      if (parsed.phone) parsed.phone = canonicalizePhone(parsed.phone, phoneRegion).number;
+      if (parsed.name) {
+        try {
+          new RegExp(parsed.name, 'i');
+        } catch (err) {
+          fail(`${list}[${index}].name: invalid regular expression: ${(err as Error).message}`);
+        }
+      }
+      config[list].push(parsed);
+    }
   }
 
-  // Also check structured names (N field) for better matching
-  if (a.n && b.n) {
-    const aFirst = normalizeNameForComparison(a.n.givenName || '');
-    const aLast = normalizeNameForComparison(a.n.familyName || '');
-    const bFirst = normalizeNameForComparison(b.n.givenName || '');
-    const bLast = normalizeNameForComparison(b.n.familyName || '');
+  return config;
+}
+
+/** The first entry of a keep or drop list that identifies the contact, described for reports. */
+function findListEntry(contact: Contact, list: ListEntry[]): string {
+  for (const entry of list) {
+    if (entry.email && contact.emails.some(e => e.value.toLowerCase() === entry.email)) {
+      return `email ${entry.email}`;
+    }
+    if (entry.phone && contact.phones.some(p => p.value === entry.phone)) return `phone ${entry.phone}`;
+    if (entry.uid && contact.id === entry.uid) return `uid ${entry.uid}`;
+    if (entry.name && new RegExp(entry.name, 'i').test(contact.fn)) return `name /${entry.name}/`;
+  }
+  return '';
+}
+
+function isPlainObject(value: unknown): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): boolean {
+  return Array.isArray(value) && value.every(v => typeof v === 'string');
+}
+
+/** Returns a description of what is wrong with a condition, or '' if it is valid. */
+function validateCondition(condition: unknown): string {
+  if (!isPlainObject(condition)) return 'condition must be an object';
+  const c = condition as Record<string, unknown>;
+
+  if ('all' in c || 'any' in c) {
+    const list = c.all ?? c.any;
+    if (!Array.isArray(list) || list.length === 0) return '"all"/"any" must be a non-empty array';
+    for (const sub of list) {
+      const problem = validateCondition(sub);
+      if (problem) return problem;
+    }
+    return '';
+  }
+  if ('not' in c) {
+    return validateCondition(c.not);
+  }
+
+  if (!CONTACT_FIELDS.includes(c.field as ContactField)) {
+    return `unknown field '${c.field}' (expected one of: ${CONTACT_FIELDS.join(', ')})`;
+  }
+  const tests = ['equals', 'contains', 'startsWith', 'endsWith', 'matches', 'exists', 'minCount', 'maxCount'];
+  if (!tests.some(t => t in c)) {
+    return `condition on '${c.field}' has no test (${tests.join(', ')})`;
+  }
+  for (const t of ['equals', 'contains', 'startsWith', 'endsWith', 'matches']) {
+    if (t in c && typeof c[t] !== 'string') return `'${t}' must be a string`;
+  }
+  if ('exists' in c && typeof c.exists !== 'boolean') return `'exists' must be a boolean`;
+  for (const t of ['minCount', 'maxCount']) {
+    if (t in c && typeof c[t] !== 'number') return `'${t}' must be a number`;
+  }
+  if (typeof c.matches === 'string') {
+    try {
+      new RegExp(c.matches, 'i');
+    } catch (err) {
+      return `invalid regular expression: ${(err as Error).message}`;
+    }
+  }
+  return '';
+}
+
+function contactFieldValues(contact: Contact, field: ContactField): string[] {
+  const present = (v: string | undefined) => (v && v.trim() ? [v] : []);
+
+  switch (field) {
+    case 'fn': return present(contact.fn);
+    case 'givenName': return present(contact.n?.givenName);
+    case 'familyName': return present(contact.n?.familyName);
+    case 'emails': return valuesOf(contact.emails);
+    case 'phones': return valuesOf(contact.phones);
+    case 'urls': return valuesOf(contact.urls);
+    case 'org': return contact.org.filter(o => o.trim());
+    case 'title': return present(contact.title);
+    case 'note': return present(contact.note);
+    case 'bday': return present(contact.bday);
+    case 'photo': return present(contact.photo);
+    case 'source': return present(contact.source);
+    case 'locality': return contact.addresses.map(a => a.locality).filter(v => v);
+    case 'countryName': return contact.addresses.map(a => a.countryName).filter(v => v);
+    case 'labels': return contactLabels(contact);
+  }
+}
+
+function matchesCondition(contact: Contact, condition: RuleCondition): boolean {
+  if ('all' in condition) return condition.all.every(c => matchesCondition(contact, c));
+  if ('any' in condition) return condition.any.some(c => matchesCondition(contact, c));
+  if ('not' in condition) return !matchesCondition(contact, condition.not);
+
+  const values = contactFieldValues(contact, condition.field);
+  const lower = values.map(v => v.toLowerCase());
+
+  if (condition.exists !== undefined && (values.length > 0) !== condition.exists) return false;
+  if (condition.minCount !== undefined && values.length < condition.minCount) return false;
+  if (condition.maxCount !== undefined && values.length > condition.maxCount) return false;
+
+  const stringTests: Array<[string | undefined, (v: string, t: string) => boolean]> = [
+    [condition.equals, (v, t) => v === t],
+    [condition.contains, (v, t) => v.includes(t)],
+    [condition.startsWith, (v, t) => v.startsWith(t)],
+    [condition.endsWith, (v, t) => v.endsWith(t)],
+  ];
+  for (const [target, test] of stringTests) {
+    if (target !== undefined && !lower.some(v => test(v, target.toLowerCase()))) return false;
+  }
+  if (condition.matches !== undefined) {
+    const regex = new RegExp(condition.matches, 'i');
+    if (!values.some(v => regex.test(v))) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Decide whether to keep a contact. The keep and drop lists, the Telegram
+ * immunity and custom rules decide outright, first match wins. Otherwise
+ * every built-in rule that fires lowers the contact's quality score by its
+ * weight, the positive signals raise it, and the score's band decides;
+ * `sourceCount` is the number of sources the contact appears in.
+ */
+function shouldFilterContact(contact: Contact, config: FilterConfig = DEFAULT_FILTER_CONFIG, sourceCount = 1): FilterResult {
+  const fn = contact.fn.trim();
+  const hasPhone = contact.phones.length > 0;
+  const hasEmail = contact.emails.length > 0;
+  const hasOrg = contact.org.length > 0 && contact.org.some(o => o.trim().length > 0);
+  const hasUrl = contact.urls.length > 0;
+  const hasAddress = contact.addresses.length > 0 && contact.addresses.some(a =>
+    a.streetAddress || a.locality || a.region || a.postalCode || a.countryName);
+  const hasTitle = !!contact.title.trim();
+  const hasNote = !!contact.note.trim();
+  const hasPhoto = !!contact.photo;
+  const hasBday = !!contact.bday;
+  const enabled = (id: string) => ruleEnabled(config, id);
+  const fired: FilterResult[] = [];
+  const flag = (rule: string, reason: string, detail = '') => {
+    fired.push({ keep: false, rule, reason, detail });
+  };
+
+  // The keep and drop lists come before every rule; the keep list wins
+  const keepEntry = findListEntry(contact, config.keepList);
+  const dropEntry = keepEntry ? '' : findListEntry(contact, config.dropList);
+  if (keepEntry || dropEntry) {
+    const keep = !!keepEntry;
+    const verdict = shouldFilterContact(contact, { ...config, keepList: [], dropList: [] }, sourceCount);
+    return {
+      keep,
+      rule: keep ? LIST_RULE_IDS.keep : LIST_RULE_IDS.drop,
+      reason: keep ? 'On the keep list' : 'On the drop list',
+      detail: keepEntry || dropEntry,
+      overrides: verdict.keep === keep ? undefined : verdict,
+    };
+  }
+
+  // Check for first/last name
+  const hasFirstName = contact.n?.givenName?.trim();
+  const hasLastName = contact.n?.familyName?.trim();
+  const hasFullName = hasFirstName && hasLastName;
+  const hasSingleNameOnly = (hasFirstName || hasLastName) && !hasFullName;
+
+  // Check for Telegram label (always keep these)
+  if (enabled('telegram-immunity')) {
+    const immuneLabels = ruleList(config, 'telegram-immunity', 'labels').map(l => l.toLowerCase());
+    const hasTelegram = contactLabels(contact).some(label =>
+      immuneLabels.some(l => label.toLowerCase().includes(l))
+    );
+    if (hasTelegram) {
+      return { keep: true, rule: 'telegram-immunity', reason: 'Telegram label', detail: '' };
+    }
+  }
+
+  // Custom rules from the rules file, in file order
+  for (const rule of config.customRules) {
+    if (matchesCondition(contact, rule.when)) {
+      const reason = rule.reason || `Custom rule: ${rule.id}`;
+      return { keep: rule.action === 'keep', rule: rule.id, reason, detail: '' };
+    }
+  }
+
+  // Rule 1: No name at all
+  if (enabled('no-name') && !fn) {
+    flag('no-name', 'No name (FN empty)');
+  }
+
+  // Rule 1b: Name is an email address
+  if (enabled('email-as-name') && fn.includes('@') && fn.includes('.')) {
+    flag('email-as-name', 'Email as name', `'${fn.slice(0, 40)}'`);
+  }
+
+  // Rule 1c: Name contains mangled/garbage characters (backslash, braces, brackets)
+  // Note: pipe | is allowed ("Name | Company" is split on reading, but a stray one may remain)
+  if (enabled('mangled-name') && (/\\/.test(fn) || /[{}[\]<>]/.test(fn))) {
+    flag('mangled-name', 'Mangled/garbage name', `'${fn.slice(0, 40)}'`);
+  }
+
+  // Rule 1d: Name contains quotes (usually address data parsed as name)
+  if (enabled('quotes-in-name') && fn.includes('"')) {
+    flag('quotes-in-name', 'Quotes in name (address data)', `'${fn.slice(0, 40)}'`);
+  }
+
+  // Rule 1d: Name is too long (likely garbage data)
+  if (enabled('name-too-long') && fn.length > ruleNumber(config, 'name-too-long', 'maxLength')) {
+    flag('name-too-long', 'Name too long', `${fn.length} chars`);
+  }
+
+  // Rule 1e: Name looks like a phone number
+  const fnDigitsOnly = fn.replace(/[\s\-\.\(\)\+]/g, '');
+  const minPhoneDigits = ruleNumber(config, 'phone-as-name', 'minDigits');
+  if (enabled('phone-as-name') && /^\d+$/.test(fnDigitsOnly) && fnDigitsOnly.length >= minPhoneDigits) {
+    flag('phone-as-name', 'Phone number as name', `'${fn}'`);
+  }
+
+  // Rule 1f: Gibberish/random alphanumeric name (e.g., "D7k5wt3q46")
+  if (enabled('gibberish-name') &&
+      /^[a-zA-Z0-9]+$/.test(fn) && /\d/.test(fn) && /[a-zA-Z]/.test(fn) && !fn.includes(' ')) {
+    // Exclude likely usernames with just trailing numbers (e.g., "john123")
+    const isLikelyUsername = /^[a-zA-Z]+\d{1,4}$/.test(fn);
+    if (!isLikelyUsername) {
+      flag('gibberish-name', 'Gibberish name', `'${fn}'`);
+    }
+  }
+
+  // Rule 1g: Very short name (<=3 chars) without phone number
+  if (enabled('very-short-name') &&
+      fn.length > 0 && fn.length <= ruleNumber(config, 'very-short-name', 'maxLength') && !hasPhone) {
+    flag('very-short-name', 'Very short name', `'${fn}' (${fn.length} chars)`);
+  }
+
+  // Rule 1h: Lowercase single word name without phone (likely username/handle)
+  if (enabled('lowercase-handle') && /^[a-z]/.test(fn) && !fn.includes(' ') && !hasPhone) {
+    flag('lowercase-handle', 'Lowercase single word', `'${fn}'`);
+  }
+
+  // Rule 1i: Name is just initials (2+ words, each <=2 chars)
+  const nameWords = fn.split(/\s+/);
+  const maxInitialLength = ruleNumber(config, 'initials-only', 'maxWordLength');
+  if (enabled('initials-only') && nameWords.length >= 2 && nameWords.every(w => w.length <= maxInitialLength)) {
+    flag('initials-only', 'Initials only', `'${fn}'`);
+  }
+
+  // Rule 1j: Name has parenthetical number (often age/metadata)
+  if (enabled('parenthetical-number') && /\(\d+\)/.test(fn)) {
+    flag('parenthetical-number', 'Parenthetical number in name', `'${fn}'`);
+  }
+
+  // Rule 1k: Name ends with domain TLD (e.g., "Guru.com")
+  if (enabled('name-ends-with-tld')) {
+    const fnLower = fn.toLowerCase();
+    const tlds = ruleList(config, 'name-ends-with-tld', 'tlds');
+    if (tlds.some(tld => fnLower.endsWith(`.${tld.toLowerCase()}`))) {
+      flag('name-ends-with-tld', 'Name ends with TLD', `'${fn}'`);
+    }
+  }
+
+  // Rule 2: Check for metadata garbage prefixes
+  if (enabled('metadata-prefix')) {
+    for (const prefix of ruleList(config, 'metadata-prefix', 'prefixes')) {
+      if (fn.startsWith(prefix)) {
+        flag('metadata-prefix', 'Metadata garbage prefix', `starts with '${prefix}'`);
+        break;
+      }
+    }
+  }
+
+  // Rule 3: Common generic names
+  const commonNames = ruleList(config, 'generic-name', 'names').map(n => n.toLowerCase());
+  const fullNameLower = fn.toLowerCase();
+  const firstNameLower = (hasFirstName || '').toLowerCase();
+  const lastNameLower = (hasLastName || '').toLowerCase();
+
+  if (enabled('generic-name') &&
+      (commonNames.includes(fullNameLower) ||
+       commonNames.includes(firstNameLower) ||
+       commonNames.includes(lastNameLower))) {
+    flag('generic-name', 'Generic name', `'${fn}'`);
+  }
+
+  // Rule 3b: Short single-word name with only email (no phone) - low quality
+  // Catches entries like "ags" with just an email
+  const fnWords = fn.split(/\s+/).filter(w => w.length > 0);
+  const isSingleWord = fnWords.length === 1;
+  const isShortName = fn.length <= ruleNumber(config, 'short-single-name-email-only', 'maxLength');
+  const hasOnlyEmail = hasEmail && !hasPhone && !hasOrg && !hasTitle && !hasAddress && !hasBday;
+
+  if (enabled('short-single-name-email-only') && isSingleWord && isShortName && hasOnlyEmail && !hasFullName) {
+    flag('short-single-name-email-only', 'Short single name with only email', `'${fn}'`);
+  }
+
+  // Rule 3c: Single word name (no last name) with only email - likely low quality
+  if (enabled('single-name-email-only') && isSingleWord && !hasFullName && hasOnlyEmail && !hasUrl) {
+    flag('single-name-email-only', 'Single word name with only email', `'${fn}'`);
+  }
+
+  // Rule 4: First name equals last name (single word duplicated)
+  if (enabled('duplicate-name') && hasFirstName && hasLastName) {
+    const first = hasFirstName.trim().toLowerCase();
+    const last = hasLastName.trim().toLowerCase();
+    if (first === last && !first.includes(' ')) {
+      flag('duplicate-name', 'Duplicate name', `'${first}' = '${last}'`);
+    }
+  }
+
+  // Rule 5: Only has name, nothing else
+  const hasOnlyName = !hasPhone && !hasEmail && !hasUrl && !hasAddress &&
+                       !hasOrg && !hasTitle && !hasNote && !hasPhoto && !hasBday;
+  if (enabled('name-only') && hasOnlyName) {
+    flag('name-only', 'Only has name, no contact info');
+  }
+
+  // Rule 6: URL-only contacts (no phone or email)
+  if (enabled('url-only') && hasUrl && !hasPhone && !hasEmail) {
+    // Allow if they have organization info
+    if (!hasOrg && !hasTitle) {
+      flag('url-only', 'URL-only, no phone/email');
+    }
+  }
+
+  // Rule 7: LinkedIn-only contacts without other meaningful info
+  const hasOnlyLinkedIn = contact.urls.length > 0 &&
+    contact.urls.every(u => u.value.includes('linkedin'));
+  if (enabled('linkedin-only') && hasOnlyLinkedIn && !hasPhone && !hasEmail && !hasOrg && !hasTitle) {
+    flag('linkedin-only', 'LinkedIn URL only, no contact info');
+  }
+
+  // Rule 8: Corporate domain emails - require phone to keep
+  // These are typically old LinkedIn imports or one-time email contacts
+  const corporateDomains = ruleList(config, 'corporate-email-no-phone', 'domains').map(d => d.toLowerCase());
+  if (enabled('corporate-email-no-phone') && hasEmail) {
+    const hasCorporateEmail = contact.emails.some(email =>
+      corporateDomains.some(d => email.value.endsWith(d))
+    );
+
+    if (hasCorporateEmail && !hasPhone) {
+      // Corporate email without phone = low value contact (old LinkedIn, one-time email)
+      const corpEmail = contact.emails.find(e => corporateDomains.some(d => e.value.endsWith(d)))!.value;
+      flag('corporate-email-no-phone', 'Corporate email without phone', corpEmail);
+    }
+  }
+
+  // Rule 9: Service/notification emails
+  const servicePatterns = ruleList(config, 'service-email-single-name', 'patterns').map(p => p.toLowerCase());
+  if (enabled('service-email-single-name') && hasEmail && valuesOf(contact.emails).every(email => {
+    const localPart = email.split('@')[0].toLowerCase();
+    return servicePatterns.some(p => localPart.includes(p) || email.toLowerCase().includes(p));
+  })) {
+    if (!hasPhone && hasSingleNameOnly) {
+      flag('service-email-single-name', 'Service email only with single name');
+    }
+  }
+
+  // Rule 10: No name and no organization
+  if (enabled('no-name-no-org') && !fn && !hasOrg) {
+    flag('no-name-no-org', 'No name and no organization');
+  }
+
+  // Positive signals, then the weights of the rules that fired
+  const signals = config.scoring.signals;
+  const factors: ScoreFactor[] = [];
+  const signal = (factor: string, applies: boolean, detail = '') => {
+    if (applies && signals[factor]) factors.push({ factor, weight: signals[factor], detail });
+  };
+  const categories = (contact.otherProperties.get('CATEGORIES') || [])
+    .flatMap(line => line.substring(line.indexOf(':') + 1).split(','))
+    .filter(c => c && !SYSTEM_CATEGORIES.includes(c.toLowerCase()));
+  signal('fullName', !!hasFullName || fnWords.length >= 2);
+  signal('phone', hasPhone);
+  signal('email', hasEmail);
+  signal('address', !!hasAddress);
+  signal('birthday', hasBday);
+  signal('photo', hasPhoto);
+  signal('note', hasNote);
+  signal('organization', hasOrg || hasTitle);
+  signal('label', contactLabels(contact).length > 0 || categories.length > 0);
+  if (sourceCount > 1 && signals.extraSource) {
+    factors.push({ factor: 'extraSource', weight: signals.extraSource * (sourceCount - 1), detail: `${sourceCount} sources` });
+  }
+  for (const result of fired) {
+    factors.push({ factor: result.rule, weight: ruleNumber(config, result.rule, 'weight'), detail: formatFilterReason(result) });
+  }
+
+  const total = factors.reduce((sum, f) => sum + f.weight, 0);
+  const band = total >= config.scoring.keepAt ? 'keep' : total >= config.scoring.reviewAt ? 'review' : 'drop';
+  const score: QualityScore = { total, band, factors };
+
+  // Reported under the rule that weighed heaviest against the contact
+  const worst = fired.reduce<FilterResult | null>((a, b) =>
+    !a || ruleNumber(config, b.rule, 'weight') < ruleNumber(config, a.rule, 'weight') ? b : a, null);
+  if (band === 'drop') {
+    return { ...(worst || { rule: LOW_SCORE_RULE_ID, reason: 'Low quality score', detail: '' }), keep: false, score };
+  }
+  if (band === 'review' && worst) {
+    return { ...worst, keep: true, score };
+  }
+  return { keep: true, rule: '', reason: '', detail: '', score };
+}
+
+/** How many distinct sources each contact appears in, by shared email or phone. */
+function contactSourceCounts(contacts: Contact[]): Map<string, number> {
+  const sourcesByKey = new Map<string, Set<string>>();
+  const keys = (contact: Contact) => [
+    ...contact.emails.map(e => `email:${e.value.toLowerCase()}`),
+    ...contact.phones.map(p => `phone:${p.value}`),
+  ];
+  for (const contact of contacts) {
+    for (const key of keys(contact)) {
+      if (!sourcesByKey.has(key)) sourcesByKey.set(key, new Set());
+      sourcesByKey.get(key)!.add(contact.source);
+    }
+  }
+
+  const counts = new Map<string, number>();
+  for (const contact of contacts) {
+    const sources = new Set([contact.source]);
+    for (const key of keys(contact)) {
+      for (const source of sourcesByKey.get(key)!) sources.add(source);
+    }
+    counts.set(contact.id, sources.size);
+  }
+  return counts;
+}
+
+// ============================================================================
+// Deduplication
+// ============================================================================
+
+interface DedupeOptions {
+  // Also match names across Cyrillic, Greek and Latin script (Игорь Петров = Igor Petrov)
+  transliterate: boolean;
+  // Pairs scoring at least mergeThreshold are merged; from reviewThreshold
+  // up they are listed as possible duplicates instead
+  mergeThreshold: number;
+  reviewThreshold: number;
+}
+
+const DEFAULT_DEDUPE_OPTIONS: DedupeOptions = {
+  transliterate: false,
+  mergeThreshold: 0.85,
+  reviewThreshold: 0.6,
+};
+
+// Letters that Unicode decomposition does not split into base letter + accent
+const NAME_FOLDS: Record<string, string> = {
+  'ß': 'ss', 'ø': 'o', 'æ': 'ae', 'œ': 'oe', 'ł': 'l', 'đ': 'd', 'ð': 'd',
+  'þ': 'th', 'ı': 'i', 'ħ': 'h', 'ŧ': 't', 'ŋ': 'ng', 'ς': 'σ',
+};
+
+/**
+ * Fold a name for comparison: compatibility-decompose, drop diacritics from
+ * Latin, Greek, Cyrillic, Hebrew and Arabic letters, lower-case, and keep
+ * letters of any script. "José García" becomes "jose garcia"; "Ольга" stays
+ * Cyrillic. Vowel signs of other scripts (Devanagari, kana voicing marks)
+ * are kept, as they distinguish names there.
+ */
+// Names are compared many times over during deduplication
+const normalizedNames = new Map<string, string>();
+
+function normalizeNameForComparison(name: string): string {
+  const cached = normalizedNames.get(name);
+  if (cached !== undefined) return cached;
+
+  const normalized = name
+    .normalize('NFKD')
+    .replace(/([\p{Script=Latin}\p{Script=Greek}\p{Script=Cyrillic}\p{Script=Hebrew}\p{Script=Arabic}])\p{M}+/gu, '$1')
+    .toLowerCase()
+    .replace(/[ßøæœłđðþıħŧŋς]/g, c => NAME_FOLDS[c])
+    .normalize('NFC')
+    .replace(/[^\p{L}\p{M}\s]/gu, '') // Remove non-letters except spaces
+    .replace(/\s+/g, ' ')              // Normalize whitespace
+    .trim();
+  normalizedNames.set(name, normalized);
+  return normalized;
+}
+
+/** Whether a normalized name has a given and a family part, so it can identify a person on its own. */
+function isMultiPartName(normalized: string): boolean {
+  if (normalized.split(' ').filter(w => w.length > 0).length >= 2) return true;
+  // Chinese, Japanese and Korean full names are usually written without spaces
+  return /^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]{2,}$/u.test(normalized);
+}
+
+const TRANSLITERATION: Record<string, string> = {
+  // Cyrillic (Russian, Ukrainian, Belarusian)
+  'а': 'a', 'б': 'b', 'в': 'v', 'г': 'g', 'д': 'd', 'е': 'e', 'ё': 'e', 'ж': 'zh',
+  'з': 'z', 'и': 'i', 'й': 'y', 'к': 'k', 'л': 'l', 'м': 'm', 'н': 'n', 'о': 'o',
+  'п': 'p', 'р': 'r', 'с': 's', 'т': 't', 'у': 'u', 'ф': 'f', 'х': 'kh', 'ц': 'ts',
+  'ч': 'ch', 'ш': 'sh', 'щ': 'shch', 'ъ': '', 'ы': 'y', 'ь': '', 'э': 'e', 'ю': 'yu',
+  'я': 'ya', 'і': 'i', 'ї': 'yi', 'є': 'ye', 'ґ': 'g', 'ў': 'u',
+  // Greek
+  'α': 'a', 'β': 'v', 'γ': 'g', 'δ': 'd', 'ε': 'e', 'ζ': 'z', 'η': 'i', 'θ': 'th',
+  'ι': 'i', 'κ': 'k', 'λ': 'l', 'μ': 'm', 'ν': 'n', 'ξ': 'x', 'ο': 'o', 'π': 'p',
+  'ρ': 'r', 'σ': 's', 'ς': 's', 'τ': 't', 'υ': 'y', 'φ': 'f', 'χ': 'ch', 'ψ': 'ps',
+  'ω': 'o',
+};
+
+/** Romanize Cyrillic and Greek letters, then fold like normalizeNameForComparison. */
+function transliterateName(name: string): string {
+  const lower = name.normalize('NFC').toLowerCase();
+  const romanized = Array.from(lower).map(c => TRANSLITERATION[c] ?? c).join('');
+  return normalizeNameForComparison(romanized);
+}
+
+function namesMatch(a: string, b: string, options: DedupeOptions): boolean {
+  const aName = normalizeNameForComparison(a);
+  const bName = normalizeNameForComparison(b);
+  if (aName === bName) return true;
+  return options.transliterate && transliterateName(a) === transliterateName(b);
+}
+
+/**
+ * Which rule in findDuplicateMatch linked two contacts, the value they
+ * shared, and how confident the match is (0-1). A reviewer's merge decision
+ * links two contacts with the 'review' signal.
+ */
+interface DuplicateMatch {
+  signal: 'email' | 'phone' | 'fn' | 'n' | 'fuzzy' | 'review';
+  value: string;
+  score: number;
+}
+
+// Given names that refer to the same person; accents already folded
+const NICKNAME_GROUPS: string[][] = [
+  ['robert', 'bob', 'bobby', 'rob', 'robbie', 'bert'],
+  ['william', 'bill', 'billy', 'will', 'willy', 'liam'],
+  ['richard', 'rick', 'ricky', 'rich', 'richie', 'dick'],
+  ['james', 'jim', 'jimmy', 'jamie'],
+  ['john', 'jack', 'johnny', 'jon'],
+  ['jonathan', 'jon', 'jonny', 'nathan'],
+  ['michael', 'mike', 'mikey', 'mick', 'mickey'],
+  ['christopher', 'chris', 'kit', 'topher'],
+  ['christine', 'christina', 'chris', 'tina', 'chrissy'],
+  ['elizabeth', 'liz', 'lizzie', 'beth', 'betty', 'eliza', 'libby', 'elisabeth'],
+  ['katherine', 'catherine', 'kathryn', 'kate', 'katie', 'kathy', 'cathy', 'kat', 'ekaterina', 'katya'],
+  ['margaret', 'maggie', 'meg', 'peggy', 'marge', 'greta'],
+  ['thomas', 'tom', 'tommy'],
+  ['joseph', 'joe', 'joey', 'jose', 'pepe'],
+  ['daniel', 'dan', 'danny'],
+  ['david', 'dave', 'davey'],
+  ['matthew', 'matt', 'matty'],
+  ['andrew', 'andy', 'drew'],
+  ['anthony', 'tony', 'antonio', 'toni'],
+  ['nicholas', 'nick', 'nicky', 'nico', 'nikolai', 'kolya'],
+  ['alexander', 'alex', 'alec', 'xander', 'sasha', 'aleksandr', 'alexandr'],
+  ['alexandra', 'alex', 'alexa', 'sandra', 'sasha'],
+  ['benjamin', 'ben', 'benny', 'benji'],
+  ['samuel', 'sam', 'sammy'],
+  ['samantha', 'sam', 'sammy'],
+  ['steven', 'stephen', 'steve', 'stevie'],
+  ['edward', 'ed', 'eddie', 'ted', 'ned'],
+  ['charles', 'charlie', 'chuck', 'chas'],
+  ['patrick', 'pat', 'paddy'],
+  ['patricia', 'pat', 'patty', 'trish', 'tricia'],
+  ['peter', 'pete', 'piotr', 'pyotr', 'petr'],
+  ['timothy', 'tim', 'timmy'],
+  ['jennifer', 'jen', 'jenny'],
+  ['jessica', 'jess', 'jessie'],
+  ['rebecca', 'becky', 'becca'],
+  ['susan', 'sue', 'suzy', 'susie'],
+  ['deborah', 'debra', 'deb', 'debbie'],
+  ['victoria', 'vicky', 'tori'],
+  ['gregory', 'greg'],
+  ['jeffrey', 'geoffrey', 'jeff', 'geoff'],
+  ['kenneth', 'ken', 'kenny'],
+  ['ronald', 'ron', 'ronnie'],
+  ['donald', 'don', 'donnie'],
+  ['lawrence', 'laurence', 'larry'],
+  ['gerald', 'gerry', 'jerry'],
+  ['frederick', 'fred', 'freddie', 'freddy'],
+  ['henry', 'hank', 'harry', 'hal'],
+  ['harold', 'harry', 'hal'],
+  ['abigail', 'abby', 'gail'],
+  ['zachary', 'zach', 'zack'],
+  ['nathaniel', 'nathan', 'nate', 'nat'],
+  ['joshua', 'josh'],
+  ['jacob', 'jake'],
+  ['philip', 'phillip', 'phil'],
+  ['raymond', 'ray'],
+  ['francis', 'frank', 'frankie', 'francisco', 'paco', 'pancho'],
+  ['theodore', 'ted', 'teddy', 'theo'],
+  ['dmitry', 'dmitri', 'dmitriy', 'dima'],
+  ['mikhail', 'misha'],
+  ['ivan', 'vanya'],
+  ['evgeny', 'yevgeny', 'zhenya'],
+  ['giuseppe', 'beppe', 'peppe'],
+];
+
+const NICKNAMES = new Map<string, Set<number>>();
+NICKNAME_GROUPS.forEach((group, index) => {
+  for (const name of group) {
+    if (!NICKNAMES.has(name)) NICKNAMES.set(name, new Set());
+    NICKNAMES.get(name)!.add(index);
+  }
+});
+
+function areNicknames(a: string, b: string): boolean {
+  const aGroups = NICKNAMES.get(a);
+  const bGroups = NICKNAMES.get(b);
+  return !!aGroups && !!bGroups && Array.from(aGroups).some(g => bGroups.has(g));
+}
+
+// Shared domains on these say nothing about two people being related
+const FREE_MAIL_DOMAINS = [
+  'gmail.com', 'googlemail.com', 'yahoo.com', 'hotmail.com', 'outlook.com', 'live.com',
+  'msn.com', 'icloud.com', 'me.com', 'mac.com', 'aol.com', 'protonmail.com', 'proton.me',
+  'gmx.de', 'gmx.net', 'web.de', 'mail.ru', 'yandex.ru', 'qq.com', '163.com',
+];
+
+/** Edit distance counting insertions, deletions, substitutions and adjacent transpositions. */
+function editDistance(a: ArrayLike<string>, b: ArrayLike<string>): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+function stringSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  // Compare by code point so letters outside the BMP count once
+  const aChars = Array.from(a);
+  const bChars = Array.from(b);
+  const longest = Math.max(aChars.length, bChars.length);
+  return longest === 0 ? 0 : 1 - editDistance(aChars, bChars) / longest;
+}
+
+/**
+ * Whether two spellings differ by a slip of the keyboard: two neighbouring
+ * letters swapped (`Jonh` / `John`) or a letter doubled (`Phillip` /
+ * `Philip`). A different letter (`Mark` / `Mary`) makes another name.
+ */
+function isTypo(a: string, b: string): boolean {
+  const [short, long] = [Array.from(a), Array.from(b)].sort((x, y) => x.length - y.length);
+  const first = short.findIndex((char, i) => char !== long[i]);
+  if (first === -1) return long.length === short.length + 1 && long[long.length - 1] === short[short.length - 1];
+  if (long.length === short.length) {
+    return long[first] === short[first + 1] && long[first + 1] === short[first] &&
+      short.slice(first + 2).join('') === long.slice(first + 2).join('');
+  }
+  return long.length === short.length + 1 && (long[first] === long[first - 1] || long[first] === long[first + 1]) &&
+    short.slice(first).join('') === long.slice(first + 1).join('');
+}
+
+/** Given and family name for fuzzy comparison, from N or else the first and last word of FN. */
+function nameParts(contact: Contact, options: DedupeOptions): { given: string; family: string } | null {
+  const fold = options.transliterate ? transliterateName : normalizeNameForComparison;
+  const given = fold(contact.n?.givenName || '');
+  const family = fold(contact.n?.familyName || '');
+  if (given && family) return { given, family };
+
+  const words = fold(contact.fn).split(' ').filter(w => w);
+  if (words.length < 2) return null;
+  return { given: words[0], family: words[words.length - 1] };
+}
+
+function emailDomains(contact: Contact): string[] {
+  return valuesOf(contact.emails)
+    .map(e => e.split('@')[1] || '')
+    .filter(d => d && !FREE_MAIL_DOMAINS.includes(d));
+}
+
+/**
+ * Score two contacts whose names are similar but not identical: nicknames
+ * (Bob/Robert), typos (Jonh/John), plus supporting evidence from a shared
+ * company email domain or organization. 0 means unrelated.
+ */
+function scoreFuzzyMatch(a: Contact, b: Contact, options: DedupeOptions): DuplicateMatch | null {
+  const aParts = nameParts(a, options);
+  const bParts = nameParts(b, options);
+  if (!aParts || !bParts) return null;
+
+  const familySimilarity = stringSimilarity(aParts.family, bParts.family);
+  let givenSimilarity = stringSimilarity(aParts.given, bParts.given);
+  const reasons: string[] = [];
+
+  if (givenSimilarity < 1 && areNicknames(aParts.given, bParts.given)) {
+    givenSimilarity = 0.9;
+    reasons.push('nickname');
+  } else if (givenSimilarity < 1 && givenSimilarity >= 0.7) {
+    reasons.push('similar given name');
+  }
+  if (familySimilarity < 1 && familySimilarity >= 0.8) {
+    reasons.push('similar family name');
+  }
+
+  if (familySimilarity < 0.8 || givenSimilarity < 0.7) return null;
+
+  let score = 0.75 * (familySimilarity + givenSimilarity) / 2;
+
+  const bDomains = emailDomains(b);
+  const sharedDomain = emailDomains(a).find(d => bDomains.includes(d));
+  if (sharedDomain) {
+    score += 0.15;
+    reasons.push(`same email domain ${sharedDomain}`);
+  }
+
+  const bOrgs = b.org.map(o => normalizeNameForComparison(o)).filter(o => o);
+  const sharedOrg = a.org.map(o => normalizeNameForComparison(o)).find(o => o && bOrgs.includes(o));
+  if (sharedOrg) {
+    score += 0.15;
+    reasons.push(`same organization ${sharedOrg}`);
+  }
+
+  // A shared domain or organization only confirms the same given name, a
+  // nickname or a typo of it. Colleagues with similar names (Mark / Mary
+  // Smith at Acme) are held below the merge threshold, as possible duplicates.
+  score = Math.min(Math.round(score * 100) / 100, 0.99);
+  const sameGiven = givenSimilarity === 1 || reasons.includes('nickname') || isTypo(aParts.given, bParts.given);
+  if (!sameGiven && score >= options.mergeThreshold) {
+    score = Math.round((options.mergeThreshold - 0.01) * 100) / 100;
+  }
+
+  return {
+    signal: 'fuzzy',
+    value: `${aParts.given} ${aParts.family} ~ ${bParts.given} ${bParts.family} (${reasons.join(', ')})`,
+    score,
+  };
+}
+
+function findDuplicateMatch(a: Contact, b: Contact, options: DedupeOptions = DEFAULT_DEDUPE_OPTIONS): DuplicateMatch | null {
+  // Strong match: same email
+  const bEmails = valuesOf(b.emails);
+  const sharedEmails = valuesOf(a.emails).filter(e => bEmails.includes(e));
+  if (sharedEmails.length > 0) {
+    return { signal: 'email', value: sharedEmails[0], score: 1 };
+  }
+
+  // Strong match: same phone
+  const bPhones = valuesOf(b.phones);
+  const sharedPhones = valuesOf(a.phones).filter(p => bPhones.includes(p));
+  if (sharedPhones.length > 0) {
+    return { signal: 'phone', value: sharedPhones[0], score: 1 };
+  }
+
+  // Full name match - but only if both have meaningful full names
+  // This catches cases like "Shira Abel" appearing twice with different contact info
+  const aName = normalizeNameForComparison(a.fn);
+  const bName = normalizeNameForComparison(b.fn);
+  const showNames = (x: string, y: string) => (x === y ? x : `${x} = ${y}`);
+
+  // Require a multi-part name to avoid matching "John" to "John"
+  if (isMultiPartName(aName) && isMultiPartName(bName) && namesMatch(a.fn, b.fn, options)) {
+    return { signal: 'fn', value: showNames(aName, bName), score: 0.95 };
+  }
+
+  // Also check structured names (N field) for better matching
+  if (a.n && b.n) {
+    const aFirst = normalizeNameForComparison(a.n.givenName || '');
+    const aLast = normalizeNameForComparison(a.n.familyName || '');
+    const bFirst = normalizeNameForComparison(b.n.givenName || '');
+    const bLast = normalizeNameForComparison(b.n.familyName || '');
+
+    // Both have first AND last name, and they match
+    if (aFirst && aLast && bFirst && bLast &&
+        namesMatch(a.n.givenName, b.n.givenName, options) &&
+        namesMatch(a.n.familyName, b.n.familyName, options)) {
+      return { signal: 'n', value: showNames(`${aFirst} ${aLast}`, `${bFirst} ${bLast}`), score: 0.95 };
+    }
+  }
+
+  // Similar names, weighed with supporting evidence
+  const fuzzy = scoreFuzzyMatch(a, b, options);
+  if (fuzzy && fuzzy.score >= options.reviewThreshold) {
+    return fuzzy;
+  }
+
+  return null;
+}
+
+function areContactsDuplicates(a: Contact, b: Contact, options: DedupeOptions = DEFAULT_DEDUPE_OPTIONS): boolean {
+  const match = findDuplicateMatch(a, b, options);
+  return match !== null && match.score >= options.mergeThreshold;
+}
+
+/** What mergeContacts did with one field: values taken over from the secondary, or discarded. */
+interface MergeFieldDecision {
+  field: string;
+  kept: string[];
+  added: string[];
+  dropped: string[];
+}
+
+/** A copy of typed values that addTypedValue can change without touching the originals. */
+function copyTypedValues(items: TypedValue[]): TypedValue[] {
+  return items.map(item => ({ ...item, types: [...item.types], extra: item.extra && [...item.extra] }));
+}
+
+function mergeContacts(primary: Contact, secondary: Contact, decisions: MergeFieldDecision[] = []): Contact {
+  // Merge secondary into primary, preferring primary's data when both have values.
+  // Copy what gets modified, so the source records stay as they were read.
+  const merged: Contact = {
+    ...primary,
+    n: primary.n && { ...primary.n },
+    emails: copyTypedValues(primary.emails),
+    phones: copyTypedValues(primary.phones),
+    urls: copyTypedValues(primary.urls),
+    related: copyTypedValues(primary.related),
+    org: [...primary.org],
+    addresses: [...primary.addresses],
+    otherProperties: new Map(primary.otherProperties),
+    propertyGroups: [...primary.propertyGroups],
+  };
+
+  const record = (field: string, kept: string[], added: string[], dropped: string[]) => {
+    if (added.length > 0 || dropped.length > 0) {
+      decisions.push({ field, kept, added, dropped });
+    }
+  };
+
+  // Merge emails, phones, URLs and relations, keeping the labels of both sides
+  const typedFields = ['emails', 'phones', 'urls', 'related'] as const;
+  for (const field of typedFields) {
+    const added: string[] = [];
+    for (const item of secondary[field]) {
+      if (addTypedValue(merged[field], item)) {
+        added.push(item.value);
+      }
+    }
+    record(field, valuesOf(merged[field]), added, []);
+  }
+
+  // Merge organizations
+  const addedOrgs: string[] = [];
+  for (const org of secondary.org) {
+    if (!merged.org.includes(org)) {
+      merged.org.push(org);
+      addedOrgs.push(org);
+    }
+  }
+  record('org', merged.org, addedOrgs, []);
+
+  // Merge group members
+  const addedMembers = secondary.members.filter(m => !merged.members.includes(m));
+  merged.members = [...merged.members, ...addedMembers];
+  record('members', merged.members, addedMembers, []);
+
+  // Merge addresses
+  const addedAddresses: string[] = [];
+  for (const addr of secondary.addresses) {
+    const exists = merged.addresses.some(a =>
+      a.streetAddress === addr.streetAddress &&
+      a.locality === addr.locality &&
+      a.postalCode === addr.postalCode
+    );
+    if (!exists) {
+      merged.addresses.push(addr);
+      addedAddresses.push(formatAddressForAudit(addr));
+    }
+  }
+  record('addresses', merged.addresses.map(formatAddressForAudit), addedAddresses, []);
+
+  // Use the more complete name; it goes with the FN chosen below
+  if (secondary.n && (!merged.n || secondary.fn.length > merged.fn.length)) {
+    const previous = merged.n;
+    merged.n = { ...secondary.n };
+    if (previous && !merged.n.givenName) merged.n.givenName = previous.givenName;
+    if (previous && !merged.n.familyName) merged.n.familyName = previous.familyName;
+    const previousName = previous ? formatNameForAudit(previous) : '';
+    const mergedName = formatNameForAudit(merged.n);
+    record('n', [mergedName], [formatNameForAudit(secondary.n)], previousName && previousName !== mergedName ? [previousName] : []);
+  } else if (merged.n && secondary.n) {
+    const added: string[] = [];
+    if (!merged.n.givenName && secondary.n.givenName) {
+      merged.n.givenName = secondary.n.givenName;
+      added.push(`given: ${secondary.n.givenName}`);
+    }
+    if (!merged.n.familyName && secondary.n.familyName) {
+      merged.n.familyName = secondary.n.familyName;
+      added.push(`family: ${secondary.n.familyName}`);
+    }
+    const secondaryName = formatNameForAudit(secondary.n);
+    const mergedName = formatNameForAudit(merged.n);
+    record('n', [mergedName], added, added.length === 0 && secondaryName !== mergedName ? [secondaryName] : []);
+  }
+
+  // Use the longer/more complete FN
+  if (secondary.fn.length > merged.fn.length) {
+    record('fn', [secondary.fn], [secondary.fn], merged.fn ? [merged.fn] : []);
+    merged.fn = secondary.fn;
+  } else if (secondary.fn && secondary.fn !== merged.fn) {
+    record('fn', [merged.fn], [], [secondary.fn]);
+  }
+
+  // Dates: one with a year beats the same day without; other differences are conflicts
+  for (const field of ['bday', 'anniversary'] as const) {
+    const { value, conflict } = mergeDateValue(merged[field], secondary[field]);
+    // Only a conflict drops a date; a year-less date replaced by its full form is not lost
+    record(field, [value], value !== merged[field] ? [value] : [], conflict ? [secondary[field]] : []);
+    merged[field] = value;
+  }
+
+  // Merge other fields if primary is empty
+  const singleFields = ['title', 'note', 'photo', 'gender', 'kind'] as const;
+  for (const field of singleFields) {
+    const value = secondary[field];
+    if (!value) continue;
+    const show = (v: string) => (field === 'photo' ? `[photo, ${v.length} chars]` : v);
+
+    if (!merged[field]) {
+      merged[field] = value;
+      record(field, [show(value)], [show(value)], []);
+    } else if (merged[field] !== value) {
+      record(field, [show(merged[field])], [], [show(value)]);
+    }
+  }
+
+  // Merge other properties
+  const addedKeys: string[] = [];
+  const droppedKeys: string[] = [];
+  for (const [key, values] of secondary.otherProperties) {
+    if (!merged.otherProperties.has(key)) {
+      merged.otherProperties.set(key, values);
+      addedKeys.push(key);
+    } else if (values.some(v => !merged.otherProperties.get(key)!.includes(v))) {
+      droppedKeys.push(key);
+    }
+  }
+  record('otherProperties', Array.from(merged.otherProperties.keys()), addedKeys, droppedKeys);
+
+  // Merge property groups, skipping groups the primary already has
+  const groupKey = (group: string[]) => group.map(l => l.toLowerCase()).sort().join('\n');
+  const existingGroups = new Set(merged.propertyGroups.map(groupKey));
+  const addedGroups: string[] = [];
+  for (const group of secondary.propertyGroups) {
+    if (!existingGroups.has(groupKey(group))) {
+      merged.propertyGroups.push(group);
+      existingGroups.add(groupKey(group));
+      addedGroups.push(group.join(' / '));
+    }
+  }
+  record('propertyGroups', merged.propertyGroups.map(g => g.join(' / ')), addedGroups, []);
+
+  return merged;
+}
+
+// ============================================================================
+// Merge Audit
+// ============================================================================
+
+/** Identifying fields of a contact, as shown in audit and quarantine reports. */
+interface ContactSummary {
+  uid: string;
+  source: string;
+  fn: string;
+  emails: string[];
+  phones: string[];
+  org: string[];
+}
+
+/**
+ * One group of source records that deduplicateContacts merged into a single
+ * contact: the records as they were read, each merge step with the signal
+ * that matched, and what happened to every field.
+ */
+interface MergeAuditCluster {
+  records: ContactSummary[];
+  merges: Array<{
+    uid: string;
+    into: string;
+    signal: DuplicateMatch['signal'];
+    matchedValue: string;
+    score: number;
+    fields: MergeFieldDecision[];
+  }>;
+  result: ContactSummary;
+}
+
+/** A pair scoring between the review and merge thresholds, left unmerged for a person to decide. */
+interface PossibleDuplicate {
+  a: ContactSummary;
+  b: ContactSummary;
+  signal: DuplicateMatch['signal'];
+  matchedValue: string;
+  score: number;
+}
+
+function summarizeContact(contact: Contact): ContactSummary {
+  return {
+    uid: contact.id,
+    source: contact.source,
+    fn: contact.fn,
+    emails: valuesOf(contact.emails),
+    phones: valuesOf(contact.phones),
+    org: [...contact.org],
+  };
+}
+
+function formatAddressForAudit(addr: Contact['addresses'][number]): string {
+  return [addr.streetAddress, addr.locality, addr.region, addr.postalCode, addr.countryName]
+    .filter(p => p)
+    .join(', ');
+}
+
+function formatNameForAudit(n: NonNullable<Contact['n']>): string {
+  return [n.honorificPrefixes, n.givenName, n.additionalNames, n.familyName, n.honorificSuffixes]
+    .filter(p => p)
+    .join(' ');
+}
+
+function formatSummaryForAudit(summary: ContactSummary): string {
+  const emailStr = summary.emails.length > 0 ? ` <${summary.emails.join(', ')}>` : '';
+  const phoneStr = summary.phones.length > 0 ? ` (${summary.phones.join(', ')})` : '';
+  return `[${summary.source}] ${summary.fn || '(no name)'}${emailStr}${phoneStr} uid=${summary.uid}`;
+}
+
+const MERGE_SIGNAL_NAMES: Record<DuplicateMatch['signal'], string> = {
+  email: 'shared email',
+  phone: 'shared phone',
+  fn: 'same full name',
+  n: 'same first and last name',
+  fuzzy: 'similar name',
+  review: 'merged on review',
+};
+
+function formatMergeAuditText(clusters: MergeAuditCluster[], enrichments: MergeAuditCluster[] = []): string {
+  const lines: string[] = [];
+
+  const entries = [
+    ...clusters.map((cluster, index) => ({ cluster, heading: `Cluster ${index + 1}` })),
+    ...enrichments.map((cluster, index) => ({ cluster, heading: `Enrichment ${index + 1}` })),
+  ];
+  entries.forEach(({ cluster, heading }) => {
+    lines.push(`${heading}: ${cluster.result.fn || '(no name)'} (${cluster.records.length} records)`);
+    lines.push('  Records:');
+    for (const record of cluster.records) {
+      lines.push(`    ${formatSummaryForAudit(record)}`);
+    }
+    lines.push('  Merges:');
+    for (const merge of cluster.merges) {
+      lines.push(
+        `    ${merge.uid} -> ${merge.into}: ${MERGE_SIGNAL_NAMES[merge.signal]} '${merge.matchedValue}' (score ${merge.score})`
+      );
+      for (const decision of merge.fields) {
+        const parts: string[] = [];
+        if (decision.added.length > 0) parts.push(`added ${decision.added.join(', ')}`);
+        if (decision.dropped.length > 0) parts.push(`dropped ${decision.dropped.join(', ')}`);
+        lines.push(`      ${decision.field}: ${parts.join('; ')}`);
+      }
+    }
+    lines.push(`  Result: ${formatSummaryForAudit(cluster.result)}`);
+    lines.push('');
+  });
+
+  return lines.join('\n');
+}
+
+function formatPossibleDuplicatesText(pairs: PossibleDuplicate[]): string {
+  const lines: string[] = [];
+  pairs.forEach((pair, index) => {
+    lines.push(`Pair ${index + 1}: score ${pair.score}, ${pair.matchedValue}`);
+    lines.push(`  ${formatSummaryForAudit(pair.a)}`);
+    lines.push(`  ${formatSummaryForAudit(pair.b)}`);
+    lines.push('');
+  });
+  return lines.join('\n');
+}
+
+/**
+ * Keys that put contacts which could be duplicates into the same block:
+ * each email, each phone, the full name, and the first four letters of the
+ * family name (for nickname and typo matches). Only contacts sharing a key
+ * are compared, instead of every pair.
+ */
+function blockingKeys(contact: Contact, options: DedupeOptions): string[] {
+  const keys = new Set<string>();
+  for (const email of contact.emails) keys.add(`email:${email.value}`);
+  for (const phone of contact.phones) keys.add(`phone:${phone.value}`);
+
+  const names = [normalizeNameForComparison(contact.fn)];
+  if (options.transliterate) names.push(transliterateName(contact.fn));
+  for (const name of names) {
+    if (isMultiPartName(name)) keys.add(`name:${name}`);
+  }
+
+  const parts = nameParts(contact, options);
+  if (parts) keys.add(`family:${Array.from(parts.family).slice(0, 4).join('')}`);
+
+  return Array.from(keys);
+}
+
+// Name blocks larger than this are too common to compare pairwise; family-name
+// blocks are split by given-name initial first, and what is still larger is skipped
+const MAX_NAME_BLOCK_SIZE = 2000;
+
+/** How much a contact holds; the most complete record of a cluster becomes the primary. */
+function contactCompleteness(contact: Contact): number {
+  return contact.emails.length + contact.phones.length + contact.urls.length +
+    contact.addresses.length + contact.org.length +
+    [contact.n, contact.title, contact.note, contact.photo, contact.bday].filter(v => v).length;
+}
+
+/** Deterministic ordering of contacts that does not depend on input order. */
+function compareContactsForMerge(a: Contact, b: Contact): number {
+  const keys = (c: Contact) => [
+    c.fn, valuesOf(c.emails).join(','), valuesOf(c.phones).join(','), c.source, c.id,
+  ];
+  const diff = contactCompleteness(b) - contactCompleteness(a);
+  if (diff !== 0) return diff;
+  const aKeys = keys(a);
+  const bKeys = keys(b);
+  for (let i = 0; i < aKeys.length; i++) {
+    if (aKeys[i] !== bKeys[i]) return aKeys[i] < bKeys[i] ? -1 : 1;
+  }
+  return 0;
+}
+
+/**
+ * Cluster duplicates with blocking and union-find. Candidate pairs come
+ * from shared blocking keys and are scored on the records as read, so the
+ * clusters are transitive (A shares an email with B, B a phone with C: one
+ * cluster) and do not depend on input order. Each cluster is then merged
+ * into its most complete record, following the strongest links first.
+ * Reviewer decisions (keyed by pairKey) merge pairs regardless of score, or
+ * keep a split pair in separate clusters.
+ */
+function deduplicateContacts(
+  contacts: Contact[],
+  options: DedupeOptions = DEFAULT_DEDUPE_OPTIONS,
+  pairDecisions: ReadonlyMap<string, PairDecision> = new Map()
+): {
+  deduplicated: Contact[];
+  mergeCount: number;
+  clusters: MergeAuditCluster[];
+  possibleDuplicates: PossibleDuplicate[];
+  skippedNameBlocks: number;
+} {
+  const count = contacts.length;
+
+  // Union-find over contact indices
+  const parent = contacts.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  const indexById = new Map(contacts.map((contact, i) => [contact.id, i]));
+  const reviewed = (decision: PairDecision['decision']) => Array.from(pairDecisions.values())
+    .filter(pair => pair.decision === decision)
+    .map(pair => pair.uids.map(uid => indexById.get(uid)))
+    .filter((pair): pair is number[] => pair.every(i => i !== undefined));
+  const splits = reviewed('split');
+
+  // Joins the groups of a and b, unless that would put a split pair together
+  const union = (a: number, b: number): boolean => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA === rootB) return true;
+    const apart = splits.some(([x, y]) => {
+      const rootX = find(x);
+      const rootY = find(y);
+      return (rootX === rootA && rootY === rootB) || (rootX === rootB && rootY === rootA);
+    });
+    if (apart) return false;
+    parent[Math.max(rootA, rootB)] = Math.min(rootA, rootB);
+    return true;
+  };
+
+  // Build blocks
+  const blocks = new Map<string, number[]>();
+  contacts.forEach((contact, i) => {
+    for (const key of blockingKeys(contact, options)) {
+      if (!blocks.has(key)) blocks.set(key, []);
+      blocks.get(key)!.push(i);
+    }
+  });
+
+  // A common family name (thousands of Smiths) is compared within each
+  // given-name initial; nicknames with another initial (Bob/Robert) are
+  // then only found through a shared email, phone or full name
+  for (const [key, members] of Array.from(blocks)) {
+    if (!key.startsWith('family:') || members.length <= MAX_NAME_BLOCK_SIZE) continue;
+    blocks.delete(key);
+    for (const i of members) {
+      const subKey = `${key}:${Array.from(nameParts(contacts[i], options)!.given)[0]}`;
+      if (!blocks.has(subKey)) blocks.set(subKey, []);
+      blocks.get(subKey)!.push(i);
+    }
+  }
+
+  // The name blocks each contact is compared in. A pair that shares several
+  // is scored in the first of them only, without keeping a set of pairs.
+  const comparedIn: string[][] = contacts.map(() => []);
+  for (const [key, members] of blocks) {
+    if (key.startsWith('email:') || key.startsWith('phone:')) continue;
+    if (members.length < 2 || members.length > MAX_NAME_BLOCK_SIZE) continue;
+    for (const i of members) comparedIn[i].push(key);
+  }
+
+  // Score candidate pairs; links are kept for ordering the merges and the audit
+  const links = new Map<number, Array<{ other: number; match: DuplicateMatch }>>();
+  const reviewPairs: Array<{ a: number; b: number; match: DuplicateMatch }> = [];
+  let skippedNameBlocks = 0;
+
+  const link = (a: number, b: number, match: DuplicateMatch) => {
+    if (!union(a, b)) return;
+    if (!links.has(a)) links.set(a, []);
+    if (!links.has(b)) links.set(b, []);
+    links.get(a)!.push({ other: b, match });
+    links.get(b)!.push({ other: a, match });
+  };
+
+  for (const [a, b] of reviewed('merge')) {
+    link(a, b, { signal: 'review', value: `${contacts[a].fn} + ${contacts[b].fn}`, score: 1 });
+  }
+
+  for (const [key, members] of blocks) {
+    if (members.length < 2) continue;
+
+    // A shared email or phone is a certain match: chaining the members is enough
+    if (key.startsWith('email:') || key.startsWith('phone:')) {
+      const signal = key.startsWith('email:') ? 'email' : 'phone';
+      const value = key.substring(key.indexOf(':') + 1);
+      for (let k = 1; k < members.length; k++) {
+        link(members[k - 1], members[k], { signal, value, score: 1 });
+      }
+      continue;
+    }
+
+    if (members.length > MAX_NAME_BLOCK_SIZE) {
+      skippedNameBlocks++;
+      continue;
+    }
+
+    for (let x = 0; x < members.length; x++) {
+      for (let y = x + 1; y < members.length; y++) {
+        const a = members[x];
+        const b = members[y];
+        if (comparedIn[a].find(k => comparedIn[b].includes(k)) !== key) continue;
+
+        const match = findDuplicateMatch(contacts[a], contacts[b], options);
+        if (!match) continue;
+        if (match.score >= options.mergeThreshold) {
+          link(a, b, match);
+        } else {
+          reviewPairs.push({ a, b, match });
+        }
+      }
+    }
+  }
+
+  // Collect clusters, in order of their first record
+  const members = new Map<number, number[]>();
+  for (let i = 0; i < count; i++) {
+    const root = find(i);
+    if (!members.has(root)) members.set(root, []);
+    members.get(root)!.push(i);
+  }
+
+  const result: Contact[] = [];
+  const clusters: MergeAuditCluster[] = [];
+  let mergeCount = 0;
+
+  for (const indices of members.values()) {
+    if (indices.length === 1) {
+      result.push(contacts[indices[0]]);
+      continue;
+    }
+
+    const primary = indices.reduce((best, i) =>
+      compareContactsForMerge(contacts[i], contacts[best]) < 0 ? i : best);
+    // Summarize every member as read, before merging changes the primary
+    const summaries = new Map(indices.map(i => [i, summarizeContact(contacts[i])]));
+    const cluster: MergeAuditCluster = { records: [summaries.get(primary)!], merges: [], result: summaries.get(primary)! };
+
+    // Merge along the strongest links first, starting from the primary
+    let current = contacts[primary];
+    const merged = new Set([primary]);
+    const frontier = [...(links.get(primary) || [])];
+
+    while (frontier.length > 0) {
+      frontier.sort((x, y) =>
+        y.match.score - x.match.score || compareContactsForMerge(contacts[x.other], contacts[y.other]));
+      const { other, match } = frontier.shift()!;
+      if (merged.has(other)) continue;
+
+      merged.add(other);
+      cluster.records.push(summaries.get(other)!);
+      const fields: MergeFieldDecision[] = [];
+      current = mergeContacts(current, contacts[other], fields);
+      cluster.merges.push({
+        uid: contacts[other].id,
+        into: current.id,
+        signal: match.signal,
+        matchedValue: match.value,
+        score: match.score,
+        fields,
+      });
+      mergeCount++;
+      frontier.push(...(links.get(other) || []).filter(l => !merged.has(l.other)));
+    }
+
+    cluster.result = summarizeContact(current);
+    clusters.push(cluster);
+    result.push(current);
+  }
+
+  // Pairs in the review band that did not end up in one cluster anyway
+  const possibleDuplicates: PossibleDuplicate[] = reviewPairs
+    .filter(({ a, b }) => find(a) !== find(b) && !pairDecisions.has(pairKey(contacts[a].id, contacts[b].id)))
+    .sort((x, y) => y.match.score - x.match.score)
+    .map(({ a, b, match }) => ({
+      a: summarizeContact(contacts[a]),
+      b: summarizeContact(contacts[b]),
+      signal: match.signal,
+      matchedValue: match.value,
+      score: match.score,
+    }));
+
+  return { deduplicated: result, mergeCount, clusters, possibleDuplicates, skippedNameBlocks };
+}
+
+/**
+ * Fill in org, title and URLs from enrich-only records (such as LinkedIn
+ * connections) on the contacts they match as duplicates. Fields the contact
+ * already has are left alone, and records that match no contact are
+ * dropped: an enrich-only source never adds contacts.
+ */
+function enrichContacts(contacts: Contact[], records: Contact[], options: DedupeOptions = DEFAULT_DEDUPE_OPTIONS): {
+  enriched: Contact[];
+  enrichments: MergeAuditCluster[];
+  unmatched: number;
+} {
+  const enriched = contacts.map(c => ({ ...c, org: [...c.org], urls: copyTypedValues(c.urls) }));
+  const enrichments: MergeAuditCluster[] = [];
+  let unmatched = 0;
+
+  const blocks = new Map<string, number[]>();
+  enriched.forEach((contact, i) => {
+    for (const key of blockingKeys(contact, options)) {
+      if (!blocks.has(key)) blocks.set(key, []);
+      blocks.get(key)!.push(i);
+    }
+  });
+
+  for (const record of records) {
+    const candidates = new Set(blockingKeys(record, options).flatMap(key => blocks.get(key) || []));
+    let best: { index: number; match: DuplicateMatch } | null = null;
+    for (const index of Array.from(candidates).sort((a, b) => a - b)) {
+      const match = findDuplicateMatch(contacts[index], record, options);
+      if (match && match.score >= options.mergeThreshold && (!best || match.score > best.match.score)) {
+        best = { index, match };
+      }
+    }
+    if (!best) {
+      unmatched++;
+      continue;
+    }
+
+    const contact = enriched[best.index];
+    const before = summarizeContact(contact);
+    const fields: MergeFieldDecision[] = [];
+
+    if (contact.org.length === 0 && record.org.length > 0) {
+      contact.org.push(...record.org);
+      fields.push({ field: 'org', kept: contact.org, added: record.org, dropped: [] });
+    }
+    if (!contact.title && record.title) {
+      contact.title = record.title;
+      fields.push({ field: 'title', kept: [contact.title], added: [record.title], dropped: [] });
+    }
+    const addedUrls = record.urls.filter(url => addTypedValue(contact.urls, url)).map(url => url.value);
+    if (addedUrls.length > 0) {
+      fields.push({ field: 'urls', kept: valuesOf(contact.urls), added: addedUrls, dropped: [] });
+    }
+    if (fields.length === 0) continue;
+
+    enrichments.push({
+      records: [before, summarizeContact(record)],
+      merges: [{
+        uid: record.id,
+        into: contact.id,
+        signal: best.match.signal,
+        matchedValue: best.match.value,
+        score: best.match.score,
+        fields,
+      }],
+      result: summarizeContact(contact),
+    });
+  }
+
+  return { enriched, enrichments, unmatched };
+}
+
+// ============================================================================
+// VCF Writer
+// ============================================================================
+
+function escapeVCardValue(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r');
+}
+
+function foldLine(line: string): string {
+  if (line.length <= 75) return line;
+
+  const folded: string[] = [];
+  let remaining = line;
+
+  folded.push(remaining.substring(0, 75));
+  remaining = remaining.substring(75);
+
+  while (remaining.length > 74) {
+    folded.push(' ' + remaining.substring(0, 74));
+    remaining = remaining.substring(74);
+  }
+
+  if (remaining.length > 0) {
+    folded.push(' ' + remaining);
+  }
+
+  return folded.join('\r\n');
+}
+
+/** Apple's built-in labels and the vCard types they stand for. */
+const APPLE_STANDARD_LABELS: Record<string, string[]> = {
+  '_$!<Mobile>!$_': ['CELL'],
+  '_$!<Home>!$_': ['HOME'],
+  '_$!<Work>!$_': ['WORK'],
+  '_$!<Main>!$_': ['MAIN'],
+  '_$!<HomeFAX>!$_': ['HOME', 'FAX'],
+  '_$!<WorkFAX>!$_': ['WORK', 'FAX'],
+  '_$!<OtherFAX>!$_': ['FAX'],
+  '_$!<Pager>!$_': ['PAGER'],
+  '_$!<Other>!$_': ['OTHER'],
+  '_$!<HomePage>!$_': ['HOME'],
+};
+
+/** Apple's built-in relation labels and the vCard 4.0 RELATED types they stand for. */
+const APPLE_RELATION_LABELS: Record<string, string> = {
+  '_$!<Spouse>!$_': 'SPOUSE',
+  '_$!<Partner>!$_': 'SWEETHEART',
+  '_$!<Child>!$_': 'CHILD',
+  '_$!<Parent>!$_': 'PARENT',
+  '_$!<Father>!$_': 'PARENT',
+  '_$!<Mother>!$_': 'PARENT',
+  '_$!<Brother>!$_': 'SIBLING',
+  '_$!<Sister>!$_': 'SIBLING',
+  '_$!<Friend>!$_': 'FRIEND',
+  '_$!<Assistant>!$_': 'AGENT',
+};
+
+const APPLE_ANNIVERSARY_LABEL = '_$!<Anniversary>!$_';
+
+// vCard 3.0 properties that RFC 6350 removed
+const VCARD3_ONLY_PROPERTIES = new Set(['LABEL', 'AGENT', 'NAME', 'MAILER', 'CLASS', 'SORT-STRING']);
+
+const isUri = (value: string) => /^[a-z][a-z0-9+.-]*:/i.test(value);
+
+/**
+ * Render a labeled value as vCard lines. Custom labels become an itemN
+ * group with an X-ABLabel partner; for Google and vCard 4.0, Apple's
+ * built-in labels are written as plain TYPE parameters instead. Extra group
+ * members (X-AB*) are only written for Apple. vCard 4.0 types are lower
+ * case and the preferred value is marked PREF=1.
+ */
+function typedPropertyLines(
+  name: string,
+  value: string,
+  item: { types: string[]; label: string; pref: boolean; extra?: string[] },
+  format: VCardFormat,
+  nextGroup: () => string,
+  defaultTypes: string[] = [],
+  extraParams: string[] = [],
+): string[] {
+  const vcard4 = format === 'vcard4';
+  const types = [...defaultTypes];
+  const add = (t: string) => { if (!types.includes(t)) types.push(t); };
+  item.types.forEach(add);
+
+  let label = item.label;
+  if (format !== 'apple' && APPLE_STANDARD_LABELS[label]) {
+    APPLE_STANDARD_LABELS[label].forEach(add);
+    label = '';
+  }
+  if (item.pref && !vcard4) add('PREF');
+
+  const paramList = [...extraParams];
+  if (types.length > 0) paramList.push(`TYPE=${(vcard4 ? types.map(t => t.toLowerCase()) : types).join(',')}`);
+  if (item.pref && vcard4) paramList.push('PREF=1');
+  const params = paramList.map(p => `;${p}`).join('');
+  const extra = format === 'apple' ? item.extra || [] : [];
+  if (!label && extra.length === 0) {
+    return [foldLine(`${name}${params}:${value}`)];
+  }
+
+  const group = nextGroup();
+  const lines = [foldLine(`${group}.${name}${params}:${value}`)];
+  if (label) {
+    lines.push(foldLine(`${group}.X-ABLabel:${escapeVCardValue(label)}`));
+  }
+  for (const line of extra) {
+    lines.push(foldLine(`${group}.${line}`));
+  }
+  return lines;
+}
+
+/**
+ * Render a related person. vCard 4.0 has RELATED with relation types;
+ * Google and Apple use X-ABRELATEDNAMES with Apple's relation labels.
+ */
+function relatedPropertyLines(item: TypedValue, format: VCardFormat, nextGroup: () => string): string[] {
+  if (format !== 'vcard4') {
+    const label = item.label ||
+      Object.keys(APPLE_RELATION_LABELS).find(l => item.types.includes(APPLE_RELATION_LABELS[l])) ||
+      (item.types[0] || '').toLowerCase();
+    return typedPropertyLines('X-ABRELATEDNAMES', escapeVCardValue(item.value), { ...item, types: [], label }, format, nextGroup);
+  }
+
+  const relation = APPLE_RELATION_LABELS[item.label];
+  const types = relation && !item.types.includes(relation) ? [...item.types, relation] : item.types;
+  const value = isUri(item.value) ? item.value : escapeVCardValue(item.value);
+  return typedPropertyLines('RELATED', value, { ...item, types, label: relation ? '' : item.label }, format,
+    nextGroup, [], isUri(item.value) ? [] : ['VALUE=text']);
+}
+
+/**
+ * Photos are held as URIs (see photoToUri). vCard 3.0 inlines images as
+ * base64 with ENCODING=b and marks links with VALUE=uri.
+ */
+function photoLine(photo: string, format: VCardFormat): string {
+  if (format === 'vcard4') {
+    return `PHOTO:${isUri(photo) ? photo : `data:image/jpeg;base64,${photo}`}`;
+  }
+  const inline = photo.match(/^data:image\/([\w.+-]+);base64,(.*)$/s);
+  if (inline) return `PHOTO;ENCODING=b;TYPE=${inline[1].toUpperCase()}:${inline[2]}`;
+  if (isUri(photo)) return `PHOTO;VALUE=uri:${photo}`;
+  return `PHOTO:${photo}`;
+}
+
+/**
+ * The structured name to export: N as read or parsed, or else parsed from
+ * FN. Groups and organizations have none.
+ */
+function exportName(contact: Contact, fn = contact.fn): NonNullable<Contact['n']> | null {
+  if (contact.n) return contact.n;
+  if (contact.kind) return null;
+  return parsePersonName(fn);
+}
+
+function contactToVCard(contact: Contact, format: VCardFormat): string {
+  const vcard4 = format === 'vcard4';
+  const lines: string[] = ['BEGIN:VCARD', vcard4 ? 'VERSION:4.0' : 'VERSION:3.0'];
+
+  // Add PRODID for Apple
+  if (format === 'apple') {
+    lines.push('PRODID:-//Apple Inc.//macOS 15.5//EN');
+  }
+
+  // UID (a URI in vCard 4.0 unless marked as text)
+  lines.push(foldLine(vcard4 && !isUri(contact.id) ? `UID;VALUE=text:${contact.id}` : `UID:${contact.id}`));
+
+  // Kind and group members
+  if (contact.kind) {
+    if (vcard4) {
+      lines.push(foldLine(`KIND:${contact.kind}`));
+    } else if (format === 'apple') {
+      lines.push(foldLine(`X-ADDRESSBOOKSERVER-KIND:${contact.kind}`));
+    }
+  }
+  for (const member of contact.members) {
+    if (vcard4) {
+      lines.push(foldLine(`MEMBER:${member}`));
+    } else if (format === 'apple') {
+      lines.push(foldLine(`X-ADDRESSBOOKSERVER-MEMBER:${member}`));
+    }
+  }
+
+  // FN (required)
+  const fn = contact.fn || 'Unknown Contact';
+  lines.push(foldLine(`FN:${escapeVCardValue(fn)}`));
+
+  // N (generated from FN when missing)
+  const name = exportName(contact, fn);
+  if (name) {
+    const nValue = [
+      name.familyName || '',
+      name.givenName || '',
+      name.additionalNames || '',
+      name.honorificPrefixes || '',
+      name.honorificSuffixes || '',
+    ].join(';');
+    lines.push(foldLine(`N:${nValue}`));
+  } else if (!vcard4) {
+    // Groups and organizations have no personal name; N is optional in 4.0
+    lines.push('N:;;;;');
+  }
+
+  // Property groups are numbered item1, item2, ... in output order
+  let groupNumber = 0;
+  const nextGroup = () => `item${++groupNumber}`;
+
+  // Emails
+  for (const email of contact.emails) {
+    lines.push(...typedPropertyLines('EMAIL', email.value, email, format, nextGroup, vcard4 ? [] : ['INTERNET']));
+  }
+
+  // Phones (tel: URIs in vCard 4.0 when the number is in E.164 form)
+  for (const phone of contact.phones) {
+    if (vcard4 && !phone.invalid && phone.value.startsWith('+')) {
+      lines.push(...typedPropertyLines('TEL', `tel:${phone.value}`, phone, format, nextGroup, [], ['VALUE=uri']));
+    } else {
+      lines.push(...typedPropertyLines('TEL', phone.value, phone, format, nextGroup));
+    }
+  }
+
+  // URLs
+  for (const url of contact.urls) {
+    lines.push(...typedPropertyLines('URL', url.value, url, format, nextGroup));
+  }
+
+  // Organization
+  if (contact.org.length > 0) {
+    lines.push(foldLine(`ORG:${contact.org.join(';')}`));
+  }
+
+  // Title
+  if (contact.title) {
+    lines.push(foldLine(`TITLE:${escapeVCardValue(contact.title)}`));
+  }
+
+  // Note
+  if (contact.note) {
+    lines.push(foldLine(`NOTE:${escapeVCardValue(contact.note)}`));
+  }
+
+  // Birthday
+  if (contact.bday) {
+    lines.push(foldLine(datePropertyLine('BDAY', contact.bday, format)));
+  }
+
+  // Anniversary (an Apple labeled date in vCard 3.0)
+  if (contact.anniversary) {
+    if (vcard4) {
+      lines.push(foldLine(datePropertyLine('ANNIVERSARY', contact.anniversary, format)));
+    } else {
+      const group = nextGroup();
+      lines.push(foldLine(`${group}.${datePropertyLine('X-ABDATE', contact.anniversary, format)}`));
+      lines.push(foldLine(`${group}.X-ABLabel:${APPLE_ANNIVERSARY_LABEL}`));
+    }
+  }
+
+  // Gender
+  if (contact.gender) {
+    if (vcard4) {
+      lines.push(foldLine(`GENDER:${contact.gender}`));
+    } else if (format === 'apple') {
+      lines.push(foldLine(`X-GENDER:${contact.gender}`));
+    }
+  }
+
+  // Related people
+  for (const related of contact.related) {
+    lines.push(...relatedPropertyLines(related, format, nextGroup));
+  }
+
+  // Addresses
+  for (const addr of contact.addresses) {
+    const adrValue = [
+      addr.poBox,
+      addr.extendedAddress,
+      addr.streetAddress,
+      addr.locality,
+      addr.region,
+      addr.postalCode,
+      addr.countryName,
+    ].join(';');
+    lines.push(...typedPropertyLines('ADR', adrValue, { ...addr, types: addr.type }, format, nextGroup));
+  }
+
+  // Photo (skip for Google as it can cause import issues)
+  if (format !== 'google' && contact.photo) {
+    lines.push(foldLine(photoLine(contact.photo, format)));
+  }
+
+  // Other properties (skip X-AB* for Google). vCard 4.0 leaves out what
+  // RFC 6350 removed: 3.0-only properties and inline ENCODING/CHARSET values.
+  if (format !== 'google') {
+    const allowed = (line: string) => !vcard4 || !/;(ENCODING|CHARSET)=/i.test(line.substring(0, line.indexOf(':')));
+
+    const exported = (line: string) => (isDateLine(line)
+      ? datePropertyLine(line.substring(0, line.indexOf(':')), line.substring(line.indexOf(':') + 1), format)
+      : line);
+
+    for (const group of contact.propertyGroups) {
+      if (!group.every(allowed)) continue;
+      const groupName = nextGroup();
+      for (const line of group) {
+        lines.push(foldLine(`${groupName}.${exported(line)}`));
+      }
+    }
+
+    for (const [key, values] of contact.otherProperties) {
+      if (vcard4 && VCARD3_ONLY_PROPERTIES.has(key)) continue;
+      for (const value of values.filter(allowed)) {
+        // Keep the original line format, dates aside
+        lines.push(foldLine(exported(value)));
+      }
+    }
+  }
+
+  lines.push('END:VCARD');
+  return lines.join('\r\n');
+}
+
+function contactsToVCF(contacts: Contact[], format: VCardFormat): string {
+  return contacts.map(c => contactToVCard(c, format)).join('\r\n') + '\r\n';
+}
+
+// ============================================================================
+// CSV and JSON Export
+// ============================================================================
+
+const appleLabelName = (label: string) => label.replace(/^_\$!<(.*)>!\$_$/, '$1');
+const capitalizeWords = (text: string) => text.toLowerCase().replace(/\b\w/g, c => c.toUpperCase());
+
+/** Types that only qualify other types and have no name of their own in CSV layouts. */
+const QUALIFIER_TYPES = ['PREF', 'VOICE', 'INTERNET'];
+
+/** Types of a value with Apple's built-in labels resolved and qualifiers dropped. */
+function effectiveTypes(item: { types: string[]; label: string }): string[] {
+  const types = APPLE_STANDARD_LABELS[item.label] || item.types;
+  return types.filter(t => !QUALIFIER_TYPES.includes(t));
+}
+
+const sameTypes = (a: string[], b: string[]) => a.length === b.length && a.every(t => b.includes(t));
+
+/** How Google CSV names the type of a value: its custom label, or its type ("Mobile", "Work Fax"). */
+function googleCSVTypeName(item: { types: string[]; label: string }): string {
+  if (item.label && !APPLE_STANDARD_LABELS[item.label]) return appleLabelName(item.label);
+  const types = effectiveTypes(item);
+  const known = Object.keys(GOOGLE_CSV_TYPES).find(name => sameTypes(GOOGLE_CSV_TYPES[name], types));
+  return capitalizeWords(known || types[0] || '');
+}
+
+/** The value of a raw vCard line, e.g. from otherProperties. */
+function propertyLineValue(line: string): string {
+  return parsePropertyLine(line)?.value ?? '';
+}
+
+/**
+ * Split a contact's preserved vCard properties into what CSV layouts have
+ * columns for (nickname, categories, dated events) and the rest, as
+ * label/value pairs.
+ */
+function csvExtraFields(contact: Contact): {
+  nickname: string;
+  categories: string[];
+  events: Array<{ label: string; value: string }>;
+  custom: Array<{ label: string; value: string }>;
+} {
+  const nickname = (contact.otherProperties.get('NICKNAME') || []).map(propertyLineValue).join(', ');
+  const categories = (contact.otherProperties.get('CATEGORIES') || [])
+    .flatMap(line => line.substring(line.indexOf(':') + 1).split(/(?<!\\),/))
+    .map(c => unescapeVCardValue(c).trim())
+    .filter(c => c);
+
+  const events: Array<{ label: string; value: string }> = [];
+  const custom: Array<{ label: string; value: string }> = [];
+  if (contact.anniversary) events.push({ label: 'Anniversary', value: contact.anniversary });
+  if (contact.gender) custom.push({ label: 'Gender', value: contact.gender });
+
+  for (const group of contact.propertyGroups) {
+    const members = group.map(parsePropertyLine).filter((p): p is ParsedProperty => p !== null);
+    const label = appleLabelName(members.find(m => m.name === 'X-ABLABEL')?.value || '');
+    const main = members.find(m => m.name !== 'X-ABLABEL');
+    if (!main) continue;
+    if (main.name === 'X-ABDATE') {
+      events.push({ label, value: main.value });
+    } else {
+      custom.push({ label: label || main.name, value: main.value });
+    }
+  }
+
+  for (const [key, lines] of contact.otherProperties) {
+    if (key === 'NICKNAME' || key === 'CATEGORIES') continue;
+    for (const line of lines) {
+      (isDateLine(line) ? events : custom).push({ label: key, value: propertyLineValue(line) });
+    }
+  }
+
+  return { nickname, categories, events, custom };
+}
+
+function formatAddressLines(addr: Contact['addresses'][number]): string {
+  return [addr.poBox, addr.extendedAddress, addr.streetAddress,
+    [addr.postalCode, addr.locality].filter(p => p).join(' '), addr.region, addr.countryName]
+    .filter(p => p)
+    .join('\n');
+}
+
+/** Google CSV column families, with the fields each numbered entry has. */
+const GOOGLE_CSV_FAMILIES: Array<[family: string, fields: string[]]> = [
+  ['E-mail', ['Label', 'Value']],
+  ['Phone', ['Label', 'Value']],
+  ['Address', ['Label', 'Formatted', 'Street', 'City', 'PO Box', 'Region', 'Postal Code', 'Country', 'Extended Address']],
+  ['Relation', ['Label', 'Value']],
+  ['Website', ['Label', 'Value']],
+  ['Event', ['Label', 'Value']],
+  ['Custom Field', ['Label', 'Value']],
+];
+
+const GOOGLE_CSV_COLUMNS = [
+  'First Name', 'Middle Name', 'Last Name', 'Name Prefix', 'Name Suffix', 'Nickname', 'File As',
+  'Organization Name', 'Organization Title', 'Organization Department', 'Birthday', 'Notes', 'Photo', 'Labels',
+];
+
+function googleCSVRecord(contact: Contact): Record<string, string> {
+  const name = exportName(contact) || { familyName: '', givenName: '', additionalNames: '', honorificPrefixes: '', honorificSuffixes: '' };
+  const composed = composeName(name.honorificPrefixes, name.givenName, name.additionalNames, name.familyName, name.honorificSuffixes);
+  const extras = csvExtraFields(contact);
+
+  const record: Record<string, string> = {
+    'First Name': name.givenName,
+    'Middle Name': name.additionalNames,
+    'Last Name': name.familyName,
+    'Name Prefix': name.honorificPrefixes,
+    'Name Suffix': name.honorificSuffixes,
+    'Nickname': extras.nickname,
+    // The display name, when it is not just the parts of the name
+    'File As': contact.fn !== composed ? contact.fn : '',
+    'Organization Name': contact.org[0] || '',
+    'Organization Title': contact.title,
+    'Organization Department': contact.org.slice(1).join(', '),
+    'Birthday': contact.bday,
+    'Notes': contact.note,
+    'Photo': contact.photo,
+    'Labels': ['* myContacts', ...extras.categories].join(' ::: '),
+  };
+
+  const add = (family: string, entries: Array<Record<string, string>>) => {
+    entries.forEach((fields, i) => {
+      for (const [field, value] of Object.entries(fields)) {
+        record[`${family} ${i + 1} - ${field}`] = value;
+      }
+    });
+  };
+  const typed = (item: TypedValue) => ({
+    Label: `${item.pref ? '* ' : ''}${googleCSVTypeName(item)}`,
+    Value: item.value,
+  });
+
+  add('E-mail', contact.emails.map(typed));
+  add('Phone', contact.phones.map(typed));
+  add('Address', contact.addresses.map(addr => ({
+    'Label': `${addr.pref ? '* ' : ''}${googleCSVTypeName({ types: addr.type, label: addr.label })}`,
+    'Formatted': formatAddressLines(addr),
+    'Street': addr.streetAddress,
+    'City': addr.locality,
+    'PO Box': addr.poBox,
+    'Region': addr.region,
+    'Postal Code': addr.postalCode,
+    'Country': addr.countryName,
+    'Extended Address': addr.extendedAddress,
+  })));
+  add('Relation', contact.related.map(item => ({
+    Label: item.label ? appleLabelName(item.label) : capitalizeWords(item.types[0] || ''),
+    Value: item.value,
+  })));
+  add('Website', contact.urls.map(typed));
+  add('Event', extras.events.map(e => ({ Label: e.label, Value: e.value })));
+  add('Custom Field', extras.custom.map(c => ({ Label: c.label, Value: c.value })));
+
+  return record;
+}
+
+/**
+ * Google CSV in the layout of Google's own export, so Google Contacts and
+ * our CSV reader can import it. Numbered columns (Phone 1, Phone 2, ...)
+ * go as high as the contact with the most values needs. vCard properties
+ * without a column are written as custom fields.
+ */
+function contactsToGoogleCSV(contacts: Contact[]): string {
+  const records = contacts.map(googleCSVRecord);
+  const columns = [...GOOGLE_CSV_COLUMNS];
+  for (const [family, fields] of GOOGLE_CSV_FAMILIES) {
+    for (let n = 1; records.some(r => `${family} ${n} - ${fields[0]}` in r); n++) {
+      columns.push(...fields.map(field => `${family} ${n} - ${field}`));
+    }
+  }
+
+  const rows = [columns, ...records.map(r => columns.map(column => r[column] || ''))];
+  return rows.map(formatCSVRow).join('\r\n') + '\r\n';
+}
+
+const OUTLOOK_CSV_COLUMNS = [
+  'Title', 'First Name', 'Middle Name', 'Last Name', 'Suffix', 'Display Name', 'Nickname',
+  'Company', 'Department', 'Job Title',
+  ...OUTLOOK_ADDRESS_PREFIXES.flatMap(([prefix]) => [
+    `${prefix} Street`, `${prefix} City`, `${prefix} State`, `${prefix} Postal Code`,
+    `${prefix} Country/Region`, `${prefix} Address PO Box`,
+  ]),
+  ...OUTLOOK_PHONE_COLUMNS.map(([column]) => column),
+  'E-mail Address', 'E-mail 2 Address', 'E-mail 3 Address',
+  'Web Page', 'Personal Web Page', 'Spouse', "Manager's Name", "Assistant's Name",
+  'Birthday', 'Anniversary', 'Gender', 'Categories', 'Notes',
+];
+
+/** Outlook's month-first date. Outlook has no dates without a year; those come out empty. */
+function formatOutlookDate(value: string): string {
+  const date = parseContactDate(value);
+  return date ? formatContactDate(date, 'outlook') : value;
+}
+
+/**
+ * One Outlook CSV row. Outlook has a fixed set of columns; values that do
+ * not fit one (a fourth email, a second work address, other vCard
+ * properties) are added to the notes as "Label: value" lines, which
+ * extractDataFromNote reads back when the file is imported again.
+ */
+function outlookCSVRecord(contact: Contact): Record<string, string> {
+  const name = exportName(contact);
+  const extras = csvExtraFields(contact);
+  const overflow: string[] = [];
+
+  const record: Record<string, string> = {
+    'Title': name?.honorificPrefixes || '',
+    'First Name': name?.givenName || '',
+    'Middle Name': name?.additionalNames || '',
+    // Groups and organizations have no structured name; their name goes here
+    'Last Name': name ? name.familyName : contact.fn,
+    'Suffix': name?.honorificSuffixes || '',
+    'Display Name': contact.fn,
+    'Nickname': extras.nickname,
+    'Company': contact.org[0] || '',
+    'Department': contact.org.slice(1).join(', '),
+    'Job Title': contact.title,
+    'Birthday': formatOutlookDate(contact.bday),
+    'Anniversary': formatOutlookDate(contact.anniversary),
+    'Gender': contact.gender.startsWith('M') ? 'Male' : contact.gender.startsWith('F') ? 'Female' : '',
+    'Categories': extras.categories.join(';'),
+  };
+
+  contact.emails.forEach((email, i) => {
+    if (i < 3) {
+      record[i === 0 ? 'E-mail Address' : `E-mail ${i + 1} Address`] = email.value;
+    } else {
+      overflow.push(`Email: ${email.value}`);
+    }
+  });
+
+  for (const phone of contact.phones) {
+    const types = effectiveTypes(phone);
+    const label = APPLE_STANDARD_LABELS[phone.label] ? '' : phone.label;
+    const column = OUTLOOK_PHONE_COLUMNS.find(([col, colTypes, colLabel]) =>
+      col !== 'Primary Phone' && !record[col] && sameTypes(colTypes, types) && colLabel === label
+    )?.[0] || (!record['Other Phone'] ? 'Other Phone' : '');
+    if (phone.pref && !record['Primary Phone']) record['Primary Phone'] = phone.value;
+    if (column) {
+      record[column] = phone.value;
+    } else {
+      overflow.push(`Phone${label || types.length ? ` (${label || types.join(' ').toLowerCase()})` : ''}: ${phone.value}`);
+    }
+  }
+
+  for (const addr of contact.addresses) {
+    const types = effectiveTypes({ types: addr.type, label: addr.label });
+    const prefix = OUTLOOK_ADDRESS_PREFIXES.find(([, prefixTypes]) => prefixTypes.some(t => types.includes(t)))?.[0] || 'Other';
+    if (record[`${prefix} Street`] || record[`${prefix} City`]) {
+      overflow.push(`Address: ${formatAddressLines(addr).replace(/\n/g, ', ')}`);
+      continue;
+    }
+    record[`${prefix} Street`] = [addr.streetAddress, addr.extendedAddress].filter(p => p).join(', ');
+    record[`${prefix} City`] = addr.locality;
+    record[`${prefix} State`] = addr.region;
+    record[`${prefix} Postal Code`] = addr.postalCode;
+    record[`${prefix} Country/Region`] = addr.countryName;
+    record[`${prefix} Address PO Box`] = addr.poBox;
+  }
+
+  for (const url of contact.urls) {
+    const column = effectiveTypes(url).includes('HOME') ? 'Personal Web Page' : 'Web Page';
+    if (!record[column]) {
+      record[column] = url.value;
+    } else {
+      overflow.push(`Website: ${url.value}`);
+    }
+  }
+
+  const relationColumns: Record<string, string> = {
+    '_$!<Spouse>!$_': 'Spouse',
+    '_$!<Manager>!$_': "Manager's Name",
+    '_$!<Assistant>!$_': "Assistant's Name",
+  };
+  for (const item of contact.related) {
+    const column = relationColumns[item.label] || (item.types.includes('SPOUSE') ? 'Spouse' : '');
+    if (column && !record[column]) {
+      record[column] = item.value;
+    } else {
+      overflow.push(`Related (${item.label ? appleLabelName(item.label) : (item.types[0] || 'other').toLowerCase()}): ${item.value}`);
+    }
+  }
+
+  for (const [label, value] of [['Birthday', contact.bday], ['Anniversary', contact.anniversary]]) {
+    if (value && !formatOutlookDate(value)) overflow.push(`${label}: ${value}`);
+  }
+  overflow.push(...extras.events.filter(e => e.label !== 'Anniversary').map(e => `${e.label || 'Date'}: ${e.value}`));
+  overflow.push(...extras.custom.filter(c => c.label !== 'Gender').map(c => `${c.label}: ${c.value}`));
+  record['Notes'] = [contact.note, overflow.join('\n')].filter(p => p).join('\n\n');
+
+  return record;
+}
+
+/** Outlook CSV in the column layout of Outlook's own export. */
+function contactsToOutlookCSV(contacts: Contact[]): string {
+  const rows = [OUTLOOK_CSV_COLUMNS, ...contacts.map(c => {
+    const record = outlookCSVRecord(c);
+    return OUTLOOK_CSV_COLUMNS.map(column => record[column] || '');
+  })];
+  return rows.map(formatCSVRow).join('\r\n') + '\r\n';
+}
+
+/** A phone number, email address, URL or relation in the JSON export. */
+interface TypedValueJSON {
+  value: string;
+  types: string[];
+  label: string;
+  pref: boolean;
+  extra: string[];
+  invalid: boolean;
+}
+
+/**
+ * A contact in the JSON export. Every field is always present, empty when
+ * the contact has no value, so scripts need no existence checks. Raw vCard
+ * lines the script does not interpret are kept in `otherProperties` (by
+ * property name) and `propertyGroups`.
+ */
+interface ContactJSON {
+  uid: string;
+  source: string;
+  kind: string;
+  fn: string;
+  name: { family: string; given: string; additional: string; prefixes: string; suffixes: string } | null;
+  emails: TypedValueJSON[];
+  phones: TypedValueJSON[];
+  urls: TypedValueJSON[];
+  related: TypedValueJSON[];
+  addresses: Array<{
+    types: string[];
+    label: string;
+    pref: boolean;
+    extra: string[];
+    poBox: string;
+    extendedAddress: string;
+    streetAddress: string;
+    locality: string;
+    region: string;
+    postalCode: string;
+    countryName: string;
+  }>;
+  org: string[];
+  title: string;
+  note: string;
+  photo: string;
+  bday: string;
+  anniversary: string;
+  gender: string;
+  members: string[];
+  otherProperties: Record<string, string[]>;
+  propertyGroups: string[][];
+}
+
+// Bumped whenever a field of ContactJSON changes meaning or is removed
+const CONTACT_JSON_SCHEMA_VERSION = 1;
+
+function contactToJSON(contact: Contact): ContactJSON {
+  const typed = (item: TypedValue): TypedValueJSON => ({
+    value: item.value,
+    types: item.types,
+    label: item.label,
+    pref: item.pref,
+    extra: item.extra || [],
+    invalid: item.invalid || false,
+  });
+
+  return {
+    uid: contact.id,
+    source: contact.source,
+    kind: contact.kind,
+    fn: contact.fn,
+    name: contact.n ? {
+      family: contact.n.familyName,
+      given: contact.n.givenName,
+      additional: contact.n.additionalNames,
+      prefixes: contact.n.honorificPrefixes,
+      suffixes: contact.n.honorificSuffixes,
+    } : null,
+    emails: contact.emails.map(typed),
+    phones: contact.phones.map(typed),
+    urls: contact.urls.map(typed),
+    related: contact.related.map(typed),
+    addresses: contact.addresses.map(({ type, extra, ...addr }) => ({ types: type, extra: extra || [], ...addr })),
+    org: contact.org,
+    title: contact.title,
+    note: contact.note,
+    photo: contact.photo,
+    bday: contact.bday,
+    anniversary: contact.anniversary,
+    gender: contact.gender,
+    members: contact.members,
+    otherProperties: Object.fromEntries(contact.otherProperties),
+    propertyGroups: contact.propertyGroups,
+  };
+}
+
+function contactsToJSON(contacts: Contact[]): string {
+  const document = { schemaVersion: CONTACT_JSON_SCHEMA_VERSION, contacts: contacts.map(contactToJSON) };
+  return JSON.stringify(document, null, 2) + '\n';
+}
+
+/** Render contacts in any output format. */
+function formatContacts(contacts: Contact[], format: ExportFormat): string {
+  switch (format) {
+    case 'google-csv':
+      return contactsToGoogleCSV(contacts);
+    case 'outlook-csv':
+      return contactsToOutlookCSV(contacts);
+    case 'json':
+      return contactsToJSON(contacts);
+    default:
+      return contactsToVCF(contacts, format);
+  }
+}
+
+// ============================================================================
+// Quarantine
+// ============================================================================
+
+/**
+ * Everything the filter removed, with the reason for each contact. The
+ * report is keyed by UID so it can be cross-checked against the quarantine
+ * VCF, which holds the full contacts for re-import after review.
+ */
+interface QuarantineReport {
+  generatedAt: string;
+  totalRemoved: number;
+  // Keyed by filter rule ID
+  rules: Record<string, number>;
+  contacts: Array<ContactSummary & { rule: string; reason: string; score?: QualityScore }>;
+}
+
+function buildQuarantineReport(removed: RemovedContact[], generatedAt: Date): QuarantineReport {
+  const rules: Record<string, number> = {};
+  for (const { rule } of removed) {
+    rules[rule] = (rules[rule] || 0) + 1;
+  }
+
+  return {
+    generatedAt: generatedAt.toISOString(),
+    totalRemoved: removed.length,
+    rules,
+    contacts: removed.map(({ contact, rule, reason, score }) => ({ ...summarizeContact(contact), rule, reason, score })),
+  };
+}
+
+// ============================================================================
+// Run Report
+// ============================================================================
+
+/**
+ * Machine-readable summary of one run, written on every run so the health of
+ * an address book can be tracked over time. Filter counts are keyed by rule
+ * ID and merge counts by the signal that joined two records; the schema
+ * version changes whenever a field changes meaning.
+ */
+interface RunReport {
+  schemaVersion: number;
+  generatedAt: string;
+  inputs: InputSpec[];
+  stages: {
+    read: number;
+    filter: { skipped: boolean; input: number; kept: number; removed: number };
+    dedupe: {
+      skipped: boolean;
+      input: number;
+      output: number;
+      merged: number;
+      possibleDuplicates: number;
+      skippedNameBlocks: number;
+    };
+    enrich: { records: number; enriched: number; unmatched: number };
+    final: number;
+    incremental: ProcessingStats['incremental'];
+  };
+  sources: Record<string, { read: number; removed: number }>;
+  filterRules: {
+    removed: Record<string, RuleCount>;
+    kept: Record<string, RuleCount>;
+  };
+  mergeSignals: Record<string, number>;
+  listOverrides: ListOverride[];
+  namesNormalized: ProcessingStats['namesNormalized'];
+  dateConflicts: DateConflict[];
+  scores: {
+    bands: ProcessingStats['scoreBands'];
+    needsReview: ReviewBandContact[];
+  };
+  invalidPhones: number;
+}
+
+const RUN_REPORT_SCHEMA_VERSION = 1;
+
+function buildRunReport(stats: ProcessingStats, options: CliOptions, generatedAt: Date): RunReport {
+  const sources: RunReport['sources'] = {};
+  for (const [source, read] of stats.sourceTotals) {
+    sources[source] = { read, removed: stats.sourceRemoved.get(source) || 0 };
+  }
+  const kept = stats.combinedTotal - stats.filteredOut;
+
+  return {
+    schemaVersion: RUN_REPORT_SCHEMA_VERSION,
+    generatedAt: generatedAt.toISOString(),
+    inputs: options.inputs,
+    stages: {
+      read: stats.combinedTotal,
+      filter: { skipped: options.skipFilter, input: stats.combinedTotal, kept, removed: stats.filteredOut },
+      dedupe: {
+        skipped: options.skipDedupe,
+        input: kept,
+        output: kept - stats.duplicatesMerged,
+        merged: stats.duplicatesMerged,
+        possibleDuplicates: stats.possibleDuplicates,
+        skippedNameBlocks: stats.skippedNameBlocks,
+      },
+      enrich: { records: stats.enrichRecords, enriched: stats.enrichedContacts, unmatched: stats.enrichUnmatched },
+      final: stats.finalCount,
+      incremental: stats.incremental,
+    },
+    sources,
+    filterRules: {
+      removed: Object.fromEntries(stats.removedByRule),
+      kept: Object.fromEntries(stats.keptByRule),
+    },
+    mergeSignals: Object.fromEntries(stats.mergeSignals),
+    listOverrides: stats.listOverrides,
+    namesNormalized: stats.namesNormalized,
+    dateConflicts: stats.dateConflicts,
+    scores: { bands: stats.scoreBands, needsReview: stats.needsReview },
+    invalidPhones: stats.invalidPhones,
+  };
+}
+
+// ============================================================================
+// Dry Run
+// ============================================================================
+
+const REPAIR_STEP_NAMES: Record<ContactRepair['step'], string> = {
+  'mangled-name': 'Mangled name fixed',
+  'note-extraction': 'Note extracted',
+  'display-name-split': 'Company split from name',
+  'name-normalization': 'Name normalized',
+};
+
+function formatDiffValues(values: string[]): string {
+  return values.filter(v => v).map(v => `'${v.replace(/\n/g, '\\n')}'`).join(', ') || '(empty)';
+}
+
+/**
+ * Per-record account of a run, in the order the records were read: what the
+ * repairs changed while reading, why a record was dropped or kept for review,
+ * and which record it was merged or enriched into with the fields that
+ * changed. Records nothing happened to are left out.
+ */
+function formatDryRunDiff(
+  contacts: Contact[],
+  removed: RemovedContact[],
+  needsReview: ReviewBandContact[],
+  clusters: MergeAuditCluster[],
+  enrichments: MergeAuditCluster[]
+): string {
+  const removedByUid = new Map(removed.map(r => [r.contact.id, r]));
+  const reviewByUid = new Map(needsReview.map(r => [r.uid, r]));
+  const summaries = new Map<string, ContactSummary>();
+  const mergesByUid = new Map<string, Array<{
+    heading: string;
+    other: string;
+    merge: MergeAuditCluster['merges'][number];
+  }>>();
+  const addMerge = (uid: string, heading: string, other: string, merge: MergeAuditCluster['merges'][number]) => {
+    const list = mergesByUid.get(uid) || [];
+    list.push({ heading, other, merge });
+    mergesByUid.set(uid, list);
+  };
+  for (const [verb, list] of [['Merged', clusters], ['Enriched', enrichments]] as const) {
+    for (const cluster of list) {
+      // Merge clusters come first and summarize every record as it was read
+      for (const record of cluster.records) {
+        if (!summaries.has(record.uid)) summaries.set(record.uid, record);
+      }
+      for (const merge of cluster.merges) {
+        addMerge(merge.uid, `${verb} into`, merge.into, merge);
+        addMerge(merge.into, `${verb} from`, merge.uid, merge);
+      }
+    }
+  }
+
+  const lines: string[] = [];
+  let changed = 0;
+  for (const contact of contacts) {
+    const dropped = removedByUid.get(contact.id);
+    const flagged = reviewByUid.get(contact.id);
+    const merges = mergesByUid.get(contact.id) || [];
+    if (contact.repairs.length === 0 && !dropped && !flagged && merges.length === 0) continue;
+    changed++;
+
+    lines.push(formatSummaryForAudit(summaries.get(contact.id) || summarizeContact(contact)));
+    for (const repair of contact.repairs) {
+      lines.push(`  ${REPAIR_STEP_NAMES[repair.step]}:`);
+      for (const change of repair.changes) {
+        lines.push(`    ${change.field}: ${formatDiffValues(change.before)} -> ${formatDiffValues(change.after)}`);
+      }
+    }
+    if (dropped) {
+      lines.push(`  Dropped: ${dropped.reason} [${dropped.rule}]`);
+      if (dropped.score) lines.push(`    ${formatQualityScore(dropped.score)}`);
+    }
+    if (flagged) {
+      lines.push(`  Needs review: ${formatQualityScore({ total: flagged.score, band: 'review', factors: flagged.factors })}`);
+    }
+    for (const { heading, other, merge } of merges) {
+      const otherSummary = summaries.get(other);
+      lines.push(`  ${heading} ${otherSummary ? formatSummaryForAudit(otherSummary) : other}`);
+      lines.push(`    ${MERGE_SIGNAL_NAMES[merge.signal]} '${merge.matchedValue}' (score ${merge.score})`);
+      // Field changes belong to the record that received them
+      if (merge.into !== contact.id) continue;
+      for (const decision of merge.fields) {
+        const parts = [...decision.dropped.map(v => `- ${v}`), ...decision.added.map(v => `+ ${v}`)];
+        lines.push(`    ${decision.field}: ${parts.join('; ')}`);
+      }
+    }
+    lines.push('');
+  }
+
+  lines.unshift(`Dry run: ${changed} of ${contacts.length} records changed`, '');
+  return lines.join('\n');
+}
+
+// ============================================================================
+// Incremental Changes
+// ============================================================================
+
+/** A contact in both the previous output and this run, with the fields that changed. */
+interface ChangedContact {
+  uid: string;
+  fn: string;
+  changes: FieldChange[];
+}
+
+/**
+ * What changed since a previous cleaned output: contacts that are new,
+ * contacts that are gone, and field changes on the rest. Unchanged contacts
+ * are only counted.
+ */
+interface ChangeReport {
+  generatedAt: string;
+  previousFile: string;
+  previousCount: number;
+  added: ContactSummary[];
+  removed: ContactSummary[];
+  changed: ChangedContact[];
+  unchanged: number;
+}
+
+/**
+ * Snapshot for comparing against a previous output, which always has a
+ * structured name: N is taken as it would be exported.
+ */
+function comparableSnapshot(contact: Contact): Record<string, string[]> {
+  const name = exportName(contact);
+  return { ...fieldSnapshot(contact), n: name ? [formatNameForAudit(name)] : [] };
+}
+
+/**
+ * Match this run's contacts to the previous output, by UID first and then
+ * as duplicates (so a contact whose primary record changed is still
+ * recognized). Matched contacts take over the previous UID, which keeps
+ * UIDs stable from one output to the next.
+ */
+function compareWithPrevious(
+  contacts: Contact[],
+  previous: Contact[],
+  previousFile: string,
+  generatedAt: Date,
+  options: DedupeOptions = DEFAULT_DEDUPE_OPTIONS
+): { contacts: Contact[]; report: ChangeReport } {
+  const matches = new Map<number, number>();
+  const used = new Set<number>();
+
+  const previousByUid = new Map(previous.map((contact, j) => [contact.id, j]));
+  contacts.forEach((contact, i) => {
+    const j = previousByUid.get(contact.id);
+    if (j !== undefined && !used.has(j)) {
+      matches.set(i, j);
+      used.add(j);
+    }
+  });
+
+  const blocks = new Map<string, number[]>();
+  previous.forEach((contact, j) => {
+    if (used.has(j)) return;
+    for (const key of blockingKeys(contact, options)) {
+      if (!blocks.has(key)) blocks.set(key, []);
+      blocks.get(key)!.push(j);
+    }
+  });
+  contacts.forEach((contact, i) => {
+    if (matches.has(i)) return;
+    const candidates = new Set(blockingKeys(contact, options).flatMap(key => blocks.get(key) || []));
+    let best: { j: number; score: number } | null = null;
+    for (const j of Array.from(candidates).sort((a, b) => a - b)) {
+      if (used.has(j)) continue;
+      const match = findDuplicateMatch(previous[j], contact, options);
+      if (match && match.score >= options.mergeThreshold && (!best || match.score > best.score)) {
+        best = { j, score: match.score };
+      }
+    }
+    if (best) {
+      matches.set(i, best.j);
+      used.add(best.j);
+    }
+  });
+
+  const report: ChangeReport = {
+    generatedAt: generatedAt.toISOString(),
+    previousFile,
+    previousCount: previous.length,
+    added: [],
+    removed: previous.filter((_, j) => !used.has(j)).map(summarizeContact),
+    changed: [],
+    unchanged: 0,
+  };
+
+  const result = contacts.map((contact, i) => {
+    const j = matches.get(i);
+    if (j === undefined) {
+      report.added.push(summarizeContact(contact));
+      return contact;
+    }
+    const before = previous[j];
+    const changes = diffSnapshots(comparableSnapshot(before), comparableSnapshot(contact));
+    if (changes.length > 0) {
+      report.changed.push({ uid: before.id, fn: contact.fn, changes });
+    } else {
+      report.unchanged++;
+    }
+    return contact.id === before.id ? contact : { ...contact, id: before.id };
+  });
+
+  return { contacts: result, report };
+}
+
+function formatChangeReportText(report: ChangeReport): string {
+  const lines: string[] = [
+    `Changes since ${report.previousFile} (${report.previousCount} contacts): ` +
+      `${report.added.length} new, ${report.removed.length} removed, ` +
+      `${report.changed.length} changed, ${report.unchanged} unchanged`,
+    '',
+  ];
+
+  if (report.added.length > 0) {
+    lines.push('New:');
+    for (const summary of report.added) lines.push(`  ${formatSummaryForAudit(summary)}`);
+    lines.push('');
+  }
+  if (report.removed.length > 0) {
+    lines.push('Removed:');
+    for (const summary of report.removed) lines.push(`  ${formatSummaryForAudit(summary)}`);
+    lines.push('');
+  }
+  if (report.changed.length > 0) {
+    lines.push('Changed:');
+    for (const contact of report.changed) {
+      lines.push(`  ${contact.fn || '(no name)'} uid=${contact.uid}`);
+      for (const change of contact.changes) {
+        lines.push(`    ${change.field}: ${formatDiffValues(change.before)} -> ${formatDiffValues(change.after)}`);
+      }
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+// ============================================================================
+// Interactive Review
+// ============================================================================
+
+/**
+ * Built-in rules that decide on weak evidence. With --review, contacts the
+ * score drops with one of them weighing heaviest are shown to the reviewer
+ * first, like those in the review band.
+ */
+const HEURISTIC_RULES = [
+  'gibberish-name',
+  'very-short-name',
+  'lowercase-handle',
+  'initials-only',
+  'generic-name',
+  'short-single-name-email-only',
+  'single-name-email-only',
+  'corporate-email-no-phone',
+  'service-email-single-name',
+];
+
+// Filter rule ID reported for contacts kept or dropped by a saved decision
+const REVIEW_RULE_ID = 'review-decision';
+
+interface ContactDecision {
+  uid: string;
+  fn: string;
+  // The rule that weighed heaviest against the contact when it was reviewed
+  rule: string;
+  decision: 'keep' | 'drop';
+}
+
+interface PairDecision {
+  uids: string[];
+  fns: string[];
+  decision: 'merge' | 'split';
+}
+
+/**
+ * Answers given during review, keyed by contact UID and by pairKey. They
+ * are saved after every answer and replayed on later runs, which works
+ * because UIDs are stable from run to run.
+ */
+interface ReviewDecisions {
+  contacts: Map<string, ContactDecision>;
+  pairs: Map<string, PairDecision>;
+}
+
+interface ReviewSession {
+  decisions: ReviewDecisions;
+  file: string;
+  // Blocking descriptor of the terminal the questions are asked on
+  input: number;
+  // Set once the reviewer quits; the remaining items keep their automatic outcome
+  done: boolean;
+}
 
-    // Both have first AND last name, and they match
-    if (aFirst && aLast && bFirst && bLast &&
-        aFirst === bFirst && aLast === bLast) {
-      return true;
-    }
-  }
+const REVIEW_DECISIONS_SCHEMA_VERSION = 1;
 
-  return false;
+function pairKey(uidA: string, uidB: string): string {
+  return [uidA, uidB].sort().join(' ');
 }
 
-function mergeContacts(primary: Contact, secondary: Contact): Contact {
-  // Merge secondary into primary, preferring primary's data when both have values
-  const merged: Contact = { ...primary };
+function loadReviewDecisions(file: string): ReviewDecisions {
+  const decisions: ReviewDecisions = { contacts: new Map(), pairs: new Map() };
+  if (!fs.existsSync(file)) return decisions;
 
-  // Merge emails
-  for (const email of secondary.emails) {
-    if (!merged.emails.includes(email)) {
-      merged.emails.push(email);
-    }
+  let text: string;
+  try {
+    text = fs.readFileSync(file, 'utf-8');
+  } catch (err) {
+    throw new FileReadError(`Cannot read decisions file ${file}: ${(err as Error).message}`);
   }
-
-  // Merge phones
-  for (const phone of secondary.phones) {
-    if (!merged.phones.includes(phone)) {
-      merged.phones.push(phone);
-    }
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (err) {
+    throw new UsageError(`Invalid decisions file ${file}: ${(err as Error).message}`);
   }
 
-  // Merge URLs
-  for (const url of secondary.urls) {
-    if (!merged.urls.includes(url)) {
-      merged.urls.push(url);
-    }
-  }
+  const fail = (message: string): never => {
+    throw new UsageError(`Invalid decisions file ${file}: ${message}`);
+  };
 
-  // Merge organizations
-  for (const org of secondary.org) {
-    if (!merged.org.includes(org)) {
-      merged.org.push(org);
-    }
+  if (!isPlainObject(raw)) fail('expected a JSON object');
+  const input = raw as Record<string, unknown>;
+  for (const field of ['contacts', 'pairs']) {
+    if (input[field] !== undefined && !Array.isArray(input[field])) fail(`"${field}" must be an array`);
   }
 
-  // Merge addresses
-  for (const addr of secondary.addresses) {
-    const exists = merged.addresses.some(a =>
-      a.streetAddress === addr.streetAddress &&
-      a.locality === addr.locality &&
-      a.postalCode === addr.postalCode
-    );
-    if (!exists) {
-      merged.addresses.push(addr);
+  for (const [index, entry] of ((input.contacts ?? []) as unknown[]).entries()) {
+    const decision = entry as Record<string, unknown>;
+    if (!isPlainObject(entry) || typeof decision.uid !== 'string' || !decision.uid) {
+      fail(`contacts[${index}] needs a "uid"`);
     }
+    if (decision.decision !== 'keep' && decision.decision !== 'drop') {
+      fail(`contacts[${index}] decision must be "keep" or "drop"`);
+    }
+    decisions.contacts.set(decision.uid as string, {
+      uid: decision.uid as string,
+      fn: String(decision.fn ?? ''),
+      rule: String(decision.rule ?? ''),
+      decision: decision.decision as ContactDecision['decision'],
+    });
   }
 
-  // Use the more complete name
-  if (!merged.n && secondary.n) {
-    merged.n = secondary.n;
-  } else if (merged.n && secondary.n) {
-    if (!merged.n.givenName && secondary.n.givenName) {
-      merged.n.givenName = secondary.n.givenName;
+  for (const [index, entry] of ((input.pairs ?? []) as unknown[]).entries()) {
+    const decision = entry as Record<string, unknown>;
+    const uids = decision?.uids;
+    if (!isPlainObject(entry) || !Array.isArray(uids) || uids.length !== 2 ||
+        !uids.every(uid => typeof uid === 'string' && uid)) {
+      fail(`pairs[${index}] needs "uids" with two UIDs`);
     }
-    if (!merged.n.familyName && secondary.n.familyName) {
-      merged.n.familyName = secondary.n.familyName;
+    if (decision.decision !== 'merge' && decision.decision !== 'split') {
+      fail(`pairs[${index}] decision must be "merge" or "split"`);
     }
+    const [uidA, uidB] = uids as string[];
+    decisions.pairs.set(pairKey(uidA, uidB), {
+      uids: [uidA, uidB],
+      fns: Array.isArray(decision.fns) ? decision.fns.map(String) : [],
+      decision: decision.decision as PairDecision['decision'],
+    });
   }
 
-  // Use the longer/more complete FN
-  if (secondary.fn.length > merged.fn.length) {
-    merged.fn = secondary.fn;
-  }
+  return decisions;
+}
 
-  // Merge other fields if primary is empty
-  if (!merged.title && secondary.title) merged.title = secondary.title;
-  if (!merged.note && secondary.note) merged.note = secondary.note;
-  if (!merged.photo && secondary.photo) merged.photo = secondary.photo;
-  if (!merged.bday && secondary.bday) merged.bday = secondary.bday;
+function saveReviewDecisions(file: string, decisions: ReviewDecisions): void {
+  const document = {
+    schemaVersion: REVIEW_DECISIONS_SCHEMA_VERSION,
+    contacts: Array.from(decisions.contacts.values()),
+    pairs: Array.from(decisions.pairs.values()),
+  };
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(document, null, 2) + '\n', 'utf-8');
+}
 
-  // Merge other properties
-  for (const [key, values] of secondary.otherProperties) {
-    if (!merged.otherProperties.has(key)) {
-      merged.otherProperties.set(key, values);
-    }
+/**
+ * The terminal to ask review questions on, opened blocking so reads wait
+ * for the reviewer: /dev/tty, or standard input where there is no
+ * /dev/tty but standard input is a terminal. Review needs a person, so
+ * there is no fallback to piped input.
+ */
+function openTerminal(): number {
+  try {
+    return fs.openSync('/dev/tty', 'r');
+  } catch {
+    if (isatty(0)) return 0;
+    throw new UsageError('--review needs a terminal to ask questions on');
   }
-
-  return merged;
 }
 
-function deduplicateContacts(contacts: Contact[]): { deduplicated: Contact[]; mergeCount: number } {
-  const result: Contact[] = [];
-  const processed = new Set<number>();
-  let mergeCount = 0;
+/** Reads one line from the terminal, keeping the script synchronous; null at end of input. */
+function promptLine(input: number, question: string): string | null {
+  fs.writeSync(process.stdout.fd, question);
+  const bytes: number[] = [];
+  const buffer = Buffer.alloc(1);
+  for (;;) {
+    const read = fs.readSync(input, buffer, 0, 1, null);
+    if (read === 0) return bytes.length > 0 ? Buffer.from(bytes).toString('utf-8').trim() : null;
+    if (buffer[0] === 0x0a) return Buffer.from(bytes).toString('utf-8').trim();
+    bytes.push(buffer[0]);
+  }
+}
 
-  for (let i = 0; i < contacts.length; i++) {
-    if (processed.has(i)) continue;
+/**
+ * Ask until the answer is one of the choice keys. An empty answer leaves the
+ * item for later (null); "q" or the end of input ends the review.
+ */
+function askChoice<T extends string>(session: ReviewSession, question: string, choices: Record<string, T>): T | null {
+  const keys = Object.entries(choices).map(([key, value]) => `[${key}]${value.slice(1)}`).join(', ');
+  for (;;) {
+    const answer = promptLine(session.input, `${question} ${keys}, Enter to decide later, [q]uit: `);
+    if (answer === null || answer.toLowerCase() === 'q') {
+      session.done = true;
+      return null;
+    }
+    if (answer === '') return null;
+    const choice = choices[answer.toLowerCase().charAt(0)];
+    if (choice) return choice;
+  }
+}
 
-    let current = contacts[i];
-    processed.add(i);
+function reviewedFilterResult(decision: ContactDecision): FilterResult {
+  return {
+    keep: decision.decision === 'keep',
+    rule: REVIEW_RULE_ID,
+    reason: decision.decision === 'keep' ? 'Kept on review' : 'Dropped on review',
+    detail: decision.rule ? `flagged by ${decision.rule}` : '',
+  };
+}
 
-    // Find all duplicates
-    for (let j = i + 1; j < contacts.length; j++) {
-      if (processed.has(j)) continue;
+/**
+ * Show a contact whose score fell in the review band, or that a heuristic
+ * rule dropped; the reviewer's answer replaces the score's verdict.
+ */
+function reviewFlaggedContact(session: ReviewSession, contact: Contact, result: FilterResult): FilterResult {
+  console.log('');
+  console.log(`${result.keep ? 'Needs review' : 'Dropped'}: ${formatFilterReason(result)} [${result.rule}]`);
+  if (result.score) console.log(`  ${formatQualityScore(result.score)}`);
+  console.log(`  ${formatSummaryForAudit(summarizeContact(contact))}`);
+  const details = [...contact.org, contact.title, ...valuesOf(contact.urls)].filter(v => v);
+  if (details.length > 0) console.log(`  ${details.join(', ')}`);
+
+  const answer = askChoice(session, 'Keep this contact?', { k: 'keep', d: 'drop' } as const);
+  if (!answer) return result;
+
+  const decision: ContactDecision = { uid: contact.id, fn: contact.fn, rule: result.rule, decision: answer };
+  session.decisions.contacts.set(contact.id, decision);
+  saveReviewDecisions(session.file, session.decisions);
+  return reviewedFilterResult(decision);
+}
 
-      if (areContactsDuplicates(current, contacts[j])) {
-        current = mergeContacts(current, contacts[j]);
-        processed.add(j);
-        mergeCount++;
-      }
-    }
+/**
+ * Show every merge deduplication made and every possible duplicate it left
+ * that has no decision yet. Returns whether anything was answered, in which
+ * case deduplication has to run again.
+ */
+function reviewMerges(
+  session: ReviewSession,
+  contacts: Contact[],
+  clusters: MergeAuditCluster[],
+  possibleDuplicates: PossibleDuplicate[]
+): boolean {
+  const byId = new Map(contacts.map(contact => [contact.id, contact]));
+  const proposals = [
+    ...clusters.flatMap(cluster => cluster.merges.map(merge => ({ heading: 'Merged', a: merge.into, b: merge.uid, match: merge }))),
+    ...possibleDuplicates.map(pair => ({ heading: 'Possible duplicate', a: pair.a.uid, b: pair.b.uid, match: pair })),
+  ];
 
-    result.push(current);
+  let answered = false;
+  for (const { heading, a, b, match } of proposals) {
+    if (session.done) break;
+    const key = pairKey(a, b);
+    const contactA = byId.get(a);
+    const contactB = byId.get(b);
+    if (session.decisions.pairs.has(key) || !contactA || !contactB) continue;
+
+    console.log('');
+    console.log(`${heading}: ${MERGE_SIGNAL_NAMES[match.signal]} '${match.matchedValue}' (score ${match.score})`);
+    console.log(`  ${formatSummaryForAudit(summarizeContact(contactA))}`);
+    console.log(`  ${formatSummaryForAudit(summarizeContact(contactB))}`);
+
+    const answer = askChoice(session, 'Merge these contacts?', { m: 'merge', s: 'split' } as const);
+    if (!answer) continue;
+    session.decisions.pairs.set(key, { uids: [a, b], fns: [contactA.fn, contactB.fn], decision: answer });
+    saveReviewDecisions(session.file, session.decisions);
+    answered = true;
   }
-
-  return { deduplicated: result, mergeCount };
+  return answered;
 }
 
 // ============================================================================
-// VCF Writer
+// Command-Line Interface
 // ============================================================================
 
-function escapeVCardValue(value: string): string {
-  return value
-    .replace(/\\/g, '\\\\')
-    .replace(/;/g, '\\;')
-    .replace(/,/g, '\\,')
-    .replace(/\n/g, '\\n')
-    .replace(/\r/g, '\\r');
+const EXIT_OK = 0;
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+
+const EXPORT_FORMATS: ExportFormat[] = ['google', 'apple', 'vcard4', 'google-csv', 'outlook-csv', 'json'];
+const DEFAULT_EXPORT_FORMATS: ExportFormat[] = ['google', 'apple'];
+const DEFAULT_OUT_DIR = 'public';
+const DEFAULT_NAME_PATTERN = 'cleaned-{format}-contacts-{date}.vcf';
+const DEFAULT_QUARANTINE_PATTERN = 'quarantine-{format}-contacts-{date}.vcf';
+const QUARANTINE_REPORT_PATTERN = 'quarantine-report-{date}.json';
+const MERGE_AUDIT_PATTERN = 'merge-audit-{date}';
+const POSSIBLE_DUPLICATES_PATTERN = 'possible-duplicates-{date}';
+const RUN_REPORT_PATTERN = 'run-report-{date}.json';
+const DRY_RUN_PATTERN = 'dry-run-{date}.txt';
+const DEFAULT_DECISIONS_FILE = 'review-decisions.json';
+const CHANGES_PATTERN = 'changes-{date}';
+
+interface InputSpec {
+  source: string;
+  file: string;
+  // Records only fill in fields on matching contacts, never add contacts
+  enrichOnly: boolean;
 }
 
-function foldLine(line: string): string {
-  if (line.length <= 75) return line;
-
-  const folded: string[] = [];
-  let remaining = line;
-
-  folded.push(remaining.substring(0, 75));
-  remaining = remaining.substring(75);
+interface CliOptions {
+  inputs: InputSpec[];
+  explicitInputs: boolean;
+  outDir: string;
+  namePattern: string;
+  quarantinePattern: string;
+  skipQuarantine: boolean;
+  skipAudit: boolean;
+  transliterate: boolean;
+  mergeThreshold: number;
+  reviewThreshold: number;
+  formats: ExportFormat[];
+  rulesFile: string;
+  phoneRegion: string;
+  printRules: boolean;
+  skipFilter: boolean;
+  skipDedupe: boolean;
+  normalizeNames: boolean;
+  dryRun: boolean;
+  previousFile: string;
+  review: boolean;
+  decisionsFile: string;
+  help: boolean;
+}
 
-  while (remaining.length > 74) {
-    folded.push(' ' + remaining.substring(0, 74));
-    remaining = remaining.substring(74);
-  }
+class UsageError extends Error {}
+// A file named on the command line that exists but cannot be read (exit 1, not a usage error)
+class FileReadError extends Error {}
+
+const HELP_TEXT = `Usage: npx tsx process-contacts.ts [options] [label=]file.vcf|file.csv ...
+
+Reads one or more VCF files or Google CSV / Outlook CSV exports (.csv),
+filters junk, merges duplicates and writes cleaned VCF files. Each input
+may be prefixed with a source label (e.g. google=exports/google.vcf);
+unlabeled inputs are labeled with their file name. Without inputs, public/google_contacts.vcf and
+public/apple_contacts.vcf are read if present. Every run writes a JSON
+report of its counts to ${RUN_REPORT_PATTERN} in the output directory.
+
+Options:
+  -o, --out-dir <dir>        Output directory (default: ${DEFAULT_OUT_DIR})
+  -p, --name-pattern <pat>   Output file name; {format} and {date} are
+                             substituted (default: ${DEFAULT_NAME_PATTERN})
+  -q, --quarantine-pattern <pat>
+                             File name for filtered-out contacts, written in
+                             each output format next to a JSON report
+                             (default: ${DEFAULT_QUARANTINE_PATTERN})
+      --skip-quarantine      Do not write quarantine files
+  -f, --format <list>        Comma-separated output formats:
+                             ${EXPORT_FORMATS.join(', ')}
+                             (default: ${DEFAULT_EXPORT_FORMATS.join(',')});
+                             CSV and JSON files get a .csv/.json extension
+  -r, --rules <file>         JSON rules file that enables, disables or tunes
+                             filter rules and adds custom ones
+      --print-rules          Print the effective filter rules as JSON and exit
+      --region <CC>          Country for phone numbers without a country code
+                             when the contact has no address country
+                             (ISO 3166 code, default: ${DEFAULT_PHONE_REGION})
+      --skip-filter          Keep every contact, do not apply filter rules
+      --skip-dedupe          Do not merge duplicate contacts
+      --normalize-names      Re-case names written all upper- or lower-case
+                             (JOHN MCDONALD -> John McDonald) and clean stray
+                             whitespace and zero-width characters
+      --transliterate        Also match names across Cyrillic, Greek and Latin
+                             script when deduplicating
+      --merge-threshold <n>  Match score (0-1) from which duplicates are merged
+                             (default: ${DEFAULT_DEDUPE_OPTIONS.mergeThreshold})
+      --review-threshold <n> Match score from which unmerged pairs are listed
+                             as possible duplicates
+                             (default: ${DEFAULT_DEDUPE_OPTIONS.reviewThreshold})
+  -e, --enrich [label=]<file>
+                             Enrich-only input (e.g. LinkedIn Connections.csv):
+                             fills in org, title and URLs on matching contacts
+                             but never adds contacts; may be repeated
+      --skip-audit           Do not write the merge audit (${MERGE_AUDIT_PATTERN}.json/.txt)
+  -n, --dry-run              Write no contact files; instead write a per-record
+                             diff of repairs, drops and merges
+                             (${DRY_RUN_PATTERN}) and the run report
+      --previous <file>      Previous cleaned output (VCF or CSV): report new,
+                             removed and changed contacts in
+                             ${CHANGES_PATTERN}.json/.txt and keep its UIDs
+      --review               Ask about contacts whose quality score is in the
+                             review band and about merges, saving the answers
+                             to the decisions file
+      --decisions <file>     Review decisions, replayed on every run
+                             (default: <out-dir>/${DEFAULT_DECISIONS_FILE})
+  -h, --help                 Show this help
+
+Exit codes:
+  ${EXIT_OK}  Success
+  ${EXIT_FAILURE}  No contacts found, or an input/output/rules file could not be accessed
+  ${EXIT_USAGE}  Invalid command-line arguments, rules or decisions file`;
+
+function readContactsFile(file: string, source: string, phoneRegion: string): Contact[] {
+  return path.extname(file).toLowerCase() === '.csv'
+    ? parseCSVFile(readCSVFile(file), source, phoneRegion)
+    : parseVCFFile(readVCardFile(file), source, phoneRegion);
+}
 
-  if (remaining.length > 0) {
-    folded.push(' ' + remaining);
+function parseInputSpec(arg: string): InputSpec {
+  const labeled = arg.match(/^([A-Za-z0-9_-]+)=(.+)$/);
+  if (labeled) {
+    return { source: labeled[1], file: labeled[2], enrichOnly: false };
   }
-
-  return folded.join('\r\n');
+  return { source: path.basename(arg, path.extname(arg)), file: arg, enrichOnly: false };
 }
 
-function contactToVCard(contact: Contact, format: 'google' | 'apple'): string {
-  const lines: string[] = ['BEGIN:VCARD', 'VERSION:3.0'];
-
-  // Add PRODID for Apple
-  if (format === 'apple') {
-    lines.push('PRODID:-//Apple Inc.//macOS 15.5//EN');
+function parseCliArgs(argv: string[]): CliOptions {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        'out-dir': { type: 'string', short: 'o' },
+        'name-pattern': { type: 'string', short: 'p' },
+        'quarantine-pattern': { type: 'string', short: 'q' },
+        'skip-quarantine': { type: 'boolean' },
+        'format': { type: 'string', short: 'f' },
+        'rules': { type: 'string', short: 'r' },
+        'print-rules': { type: 'boolean' },
+        'region': { type: 'string' },
+        'skip-filter': { type: 'boolean' },
+        'skip-dedupe': { type: 'boolean' },
+        'normalize-names': { type: 'boolean' },
+        'skip-audit': { type: 'boolean' },
+        'enrich': { type: 'string', short: 'e', multiple: true },
+        'transliterate': { type: 'boolean' },
+        'merge-threshold': { type: 'string' },
+        'review-threshold': { type: 'string' },
+        'dry-run': { type: 'boolean', short: 'n' },
+        'previous': { type: 'string' },
+        'review': { type: 'boolean' },
+        'decisions': { type: 'string' },
+        'help': { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (err) {
+    throw new UsageError((err as Error).message);
   }
 
-  // UID
-  lines.push(foldLine(`UID:${contact.id}`));
-
-  // FN (required)
-  const fn = contact.fn || 'Unknown Contact';
-  lines.push(foldLine(`FN:${escapeVCardValue(fn)}`));
+  const { values, positionals } = parsed;
 
-  // N
-  if (contact.n) {
-    const nValue = [
-      contact.n.familyName || '',
-      contact.n.givenName || '',
-      contact.n.additionalNames || '',
-      contact.n.honorificPrefixes || '',
-      contact.n.honorificSuffixes || '',
-    ].join(';');
-    lines.push(foldLine(`N:${nValue}`));
-  } else {
-    // Generate N from FN
-    const nameParts = fn.split(/\s+/).filter(p => p);
-    if (nameParts.length >= 2) {
-      const lastName = nameParts[nameParts.length - 1];
-      const firstName = nameParts[0];
-      const middleNames = nameParts.slice(1, -1).join(' ');
-      lines.push(foldLine(`N:${lastName};${firstName};${middleNames};;`));
-    } else {
-      lines.push(foldLine(`N:${fn};;;;`));
+  const formats: ExportFormat[] = [];
+  const formatList = values.format ?? DEFAULT_EXPORT_FORMATS.join(',');
+  for (const name of formatList.split(',').map(f => f.trim().toLowerCase()).filter(f => f)) {
+    if (!EXPORT_FORMATS.includes(name as ExportFormat)) {
+      throw new UsageError(`Unknown output format '${name}' (expected one of: ${EXPORT_FORMATS.join(', ')})`);
+    }
+    if (!formats.includes(name as ExportFormat)) {
+      formats.push(name as ExportFormat);
     }
   }
-
-  // Emails
-  for (const email of contact.emails) {
-    lines.push(foldLine(`EMAIL;TYPE=INTERNET:${email}`));
-  }
-
-  // Phones
-  for (const phone of contact.phones) {
-    lines.push(foldLine(`TEL:${phone}`));
-  }
-
-  // URLs
-  for (const url of contact.urls) {
-    lines.push(foldLine(`URL:${url}`));
-  }
-
-  // Organization
-  if (contact.org.length > 0) {
-    lines.push(foldLine(`ORG:${contact.org.join(';')}`));
-  }
-
-  // Title
-  if (contact.title) {
-    lines.push(foldLine(`TITLE:${escapeVCardValue(contact.title)}`));
+  if (formats.length === 0) {
+    throw new UsageError('At least one output format is required');
   }
 
-  // Note
-  if (contact.note) {
-    lines.push(foldLine(`NOTE:${escapeVCardValue(contact.note)}`));
+  const namePattern = values['name-pattern'] ?? DEFAULT_NAME_PATTERN;
+  const quarantinePattern = values['quarantine-pattern'] ?? DEFAULT_QUARANTINE_PATTERN;
+  for (const [flag, pattern] of [['--name-pattern', namePattern], ['--quarantine-pattern', quarantinePattern]]) {
+    if (formats.length > 1 && !pattern.includes('{format}')) {
+      throw new UsageError(`${flag} must contain {format} when writing more than one format`);
+    }
   }
 
-  // Birthday
-  if (contact.bday) {
-    lines.push(foldLine(`BDAY:${contact.bday}`));
+  const parseThreshold = (flag: string, value: string | undefined, fallback: number) => {
+    if (value === undefined) return fallback;
+    const threshold = Number(value);
+    if (value.trim() === '' || !(threshold >= 0 && threshold <= 1)) {
+      throw new UsageError(`${flag} must be a number between 0 and 1`);
+    }
+    return threshold;
+  };
+  const mergeThreshold = parseThreshold('--merge-threshold', values['merge-threshold'], DEFAULT_DEDUPE_OPTIONS.mergeThreshold);
+  const reviewThreshold = parseThreshold('--review-threshold', values['review-threshold'], DEFAULT_DEDUPE_OPTIONS.reviewThreshold);
+  if (reviewThreshold > mergeThreshold) {
+    throw new UsageError('--review-threshold cannot be above --merge-threshold');
   }
 
-  // Addresses
-  for (const addr of contact.addresses) {
-    const typeStr = addr.type.length > 0 ? `;TYPE=${addr.type.join(',')}` : '';
-    const adrValue = [
-      addr.poBox,
-      addr.extendedAddress,
-      addr.streetAddress,
-      addr.locality,
-      addr.region,
-      addr.postalCode,
-      addr.countryName,
-    ].join(';');
-    lines.push(foldLine(`ADR${typeStr}:${adrValue}`));
+  const phoneRegion = (values.region ?? DEFAULT_PHONE_REGION).toUpperCase();
+  if (!findNumberingPlan(phoneRegion)) {
+    throw new UsageError(
+      `Unknown region '${phoneRegion}' (known: ${NUMBERING_PLANS.map(p => p.region).join(', ')})`
+    );
   }
 
-  // Photo (skip for Google as it can cause import issues)
-  if (format === 'apple' && contact.photo) {
-    lines.push(foldLine(`PHOTO:${contact.photo}`));
+  const inputs = positionals.map(arg => parseInputSpec(arg));
+  const explicitInputs = inputs.length > 0;
+  if (!explicitInputs) {
+    inputs.push(
+      { source: 'google', file: path.join(DEFAULT_OUT_DIR, 'google_contacts.vcf'), enrichOnly: false },
+      { source: 'apple', file: path.join(DEFAULT_OUT_DIR, 'apple_contacts.vcf'), enrichOnly: false },
+    );
   }
-
-  // Other properties (Apple only, skip X-AB* for Google)
-  if (format === 'apple') {
-    for (const [key, values] of contact.otherProperties) {
-      for (const value of values) {
-        // Keep the original line format
-        lines.push(foldLine(value));
-      }
-    }
+  for (const arg of values.enrich ?? []) {
+    inputs.push({ ...parseInputSpec(arg), enrichOnly: true });
   }
 
-  lines.push('END:VCARD');
-  return lines.join('\r\n');
+  return {
+    inputs,
+    explicitInputs,
+    outDir: values['out-dir'] ?? DEFAULT_OUT_DIR,
+    namePattern,
+    quarantinePattern,
+    skipQuarantine: values['skip-quarantine'] ?? false,
+    formats,
+    rulesFile: values.rules ?? '',
+    printRules: values['print-rules'] ?? false,
+    phoneRegion,
+    skipFilter: values['skip-filter'] ?? false,
+    skipDedupe: values['skip-dedupe'] ?? false,
+    normalizeNames: values['normalize-names'] ?? false,
+    dryRun: values['dry-run'] ?? false,
+    previousFile: values.previous ?? '',
+    review: values.review ?? false,
+    decisionsFile: values.decisions ?? path.join(values['out-dir'] ?? DEFAULT_OUT_DIR, DEFAULT_DECISIONS_FILE),
+    skipAudit: values['skip-audit'] ?? false,
+    transliterate: values.transliterate ?? false,
+    mergeThreshold,
+    reviewThreshold,
+    help: values.help ?? false,
+  };
 }
 
-function contactsToVCF(contacts: Contact[], format: 'google' | 'apple'): string {
-  return contacts.map(c => contactToVCard(c, format)).join('\r\n') + '\r\n';
+const FORMAT_EXTENSIONS: Partial<Record<ExportFormat, string>> = {
+  'google-csv': '.csv',
+  'outlook-csv': '.csv',
+  'json': '.json',
+};
+
+/** Substitute {date} and {format}; CSV and JSON files get their own extension instead of .vcf. */
+function formatOutputName(pattern: string, dateStr: string, format?: ExportFormat): string {
+  const name = pattern.replace(/\{date\}/g, dateStr);
+  if (!format) return name;
+  const extension = FORMAT_EXTENSIONS[format];
+  return name.replace(/\{format\}/g, format).replace(/\.vcf$/i, extension || '$&');
 }
 
 // ============================================================================
 // Main Processing
 // ============================================================================
 
-function main() {
+function main(argv: string[]): number {
+  let options: CliOptions;
+  let filterConfig = DEFAULT_FILTER_CONFIG;
+  let decisions: ReviewDecisions;
+  let terminal = -1;
+  try {
+    options = parseCliArgs(argv);
+    if (options.rulesFile) {
+      filterConfig = loadFilterConfig(options.rulesFile, options.phoneRegion);
+    }
+    decisions = loadReviewDecisions(options.decisionsFile);
+    if (options.review && !options.help && !options.printRules) terminal = openTerminal();
+  } catch (err) {
+    if (err instanceof UsageError) {
+      console.error(`Error: ${err.message}`);
+      console.error('Run with --help for usage.');
+      return EXIT_USAGE;
+    }
+    if (err instanceof FileReadError) {
+      console.error(err.message);
+      return EXIT_FAILURE;
+    }
+    throw err;
+  }
+
+  if (options.help) {
+    console.log(HELP_TEXT);
+    return EXIT_OK;
+  }
+
+  if (options.printRules) {
+    console.log(JSON.stringify(filterConfig, null, 2));
+    return EXIT_OK;
+  }
+
   const stats: ProcessingStats = {
-    googleTotal: 0,
-    appleTotal: 0,
+    sourceTotals: new Map(),
+    sourceRemoved: new Map(),
     combinedTotal: 0,
     filteredOut: 0,
     duplicatesMerged: 0,
+    possibleDuplicates: 0,
+    skippedNameBlocks: 0,
+    enrichRecords: 0,
+    enrichedContacts: 0,
+    enrichUnmatched: 0,
     finalCount: 0,
-    filterReasons: new Map(),
+    invalidPhones: 0,
+    removedByRule: new Map(),
+    keptByRule: new Map(),
+    mergeSignals: new Map(),
+    listOverrides: [],
+    namesNormalized: [],
+    dateConflicts: [],
+    scoreBands: { keep: 0, review: 0, drop: 0 },
+    needsReview: [],
+    incremental: null,
   };
 
   console.log('='.repeat(60));
@@ -1139,106 +5561,354 @@ function main() {
   console.log('='.repeat(60));
   console.log('');
 
-  // Read input files
-  const publicDir = path.join(process.cwd(), 'public');
-
-  const googleFile = path.join(publicDir, 'google_contacts.vcf');
-  const appleFile = path.join(publicDir, 'apple_contacts.vcf');
+  const decisionCount = decisions.contacts.size + decisions.pairs.size;
+  if (decisionCount > 0) {
+    console.log(`Replaying ${decisionCount} review decisions from ${options.decisionsFile}`);
+  }
+  const review: ReviewSession | null = options.review
+    ? { decisions, file: options.decisionsFile, input: terminal, done: false }
+    : null;
 
-  let googleContacts: Contact[] = [];
-  let appleContacts: Contact[] = [];
+  // Read input files
+  const allContacts: Contact[] = [];
+  const enrichRecords: Contact[] = [];
+
+  for (const input of options.inputs) {
+    if (!fs.existsSync(input.file)) {
+      if (options.explicitInputs || input.enrichOnly) {
+        console.error(`Input file not found: ${input.file}`);
+        return EXIT_FAILURE;
+      }
+      console.log(`Contacts file not found for ${input.source} (${input.file})`);
+      continue;
+    }
 
-  if (fs.existsSync(googleFile)) {
-    console.log('Reading Google contacts...');
-    const googleContent = fs.readFileSync(googleFile, 'utf-8');
-    googleContacts = parseVCFFile(googleContent, 'google');
-    stats.googleTotal = googleContacts.length;
-    console.log(`  Found ${googleContacts.length} contacts`);
-  } else {
-    console.log('Google contacts file not found (public/google_contacts.vcf)');
+    console.log(`Reading ${input.source} contacts from ${input.file}...`);
+    let contacts: Contact[];
+    try {
+      contacts = readContactsFile(input.file, input.source, options.phoneRegion);
+    } catch (err) {
+      console.error(`Cannot read ${input.file}: ${(err as Error).message}`);
+      return EXIT_FAILURE;
+    }
+    if (input.enrichOnly) {
+      enrichRecords.push(...contacts);
+      console.log(`  Found ${contacts.length} records (enrich only)`);
+      continue;
+    }
+    stats.sourceTotals.set(input.source, (stats.sourceTotals.get(input.source) || 0) + contacts.length);
+    allContacts.push(...contacts);
+    console.log(`  Found ${contacts.length} contacts`);
   }
 
-  if (fs.existsSync(appleFile)) {
-    console.log('Reading Apple contacts...');
-    const appleContent = fs.readFileSync(appleFile, 'utf-8');
-    appleContacts = parseVCFFile(appleContent, 'apple');
-    stats.appleTotal = appleContacts.length;
-    console.log(`  Found ${appleContacts.length} contacts`);
-  } else {
-    console.log('Apple contacts file not found (public/apple_contacts.vcf)');
+  makeIdsUnique([...allContacts, ...enrichRecords]);
+
+  let previousContacts: Contact[] = [];
+  if (options.previousFile) {
+    if (!fs.existsSync(options.previousFile)) {
+      console.error(`Previous output not found: ${options.previousFile}`);
+      return EXIT_FAILURE;
+    }
+    console.log(`Reading previous output from ${options.previousFile}...`);
+    try {
+      previousContacts = readContactsFile(options.previousFile, 'previous', options.phoneRegion);
+    } catch (err) {
+      console.error(`Cannot read ${options.previousFile}: ${(err as Error).message}`);
+      return EXIT_FAILURE;
+    }
+    console.log(`  Found ${previousContacts.length} contacts`);
   }
 
-  if (googleContacts.length === 0 && appleContacts.length === 0) {
-    console.log('\nNo contacts found. Please add VCF files to the public folder.');
-    process.exit(1);
+  if (allContacts.length === 0) {
+    console.log('\nNo contacts found. Pass VCF files on the command line or add them to the public folder.');
+    return EXIT_FAILURE;
   }
 
   // Combine contacts
   console.log('\nCombining contacts...');
-  const allContacts = [...googleContacts, ...appleContacts];
   stats.combinedTotal = allContacts.length;
   console.log(`  Combined total: ${allContacts.length} contacts`);
 
+  // Normalize names before the filter judges them
+  if (options.normalizeNames) {
+    console.log('\nNormalizing names...');
+    for (const contact of allContacts) {
+      if (normalizeContactName(contact)) {
+        stats.namesNormalized.push({ uid: contact.id, changes: contact.repairs[contact.repairs.length - 1].changes });
+      }
+    }
+    console.log(`  Normalized: ${stats.namesNormalized.length}`);
+  }
+
   // Filter contacts
-  console.log('\nFiltering contacts...');
   const keptContacts: Contact[] = [];
-  const removedContacts: { contact: Contact; reason: string }[] = [];
+  const removedContacts: RemovedContact[] = [];
 
-  for (const contact of allContacts) {
-    const result = shouldFilterContact(contact);
-    if (result.keep) {
-      keptContacts.push(contact);
-    } else {
-      removedContacts.push({ contact, reason: result.reason });
-      const count = stats.filterReasons.get(result.reason) || 0;
-      stats.filterReasons.set(result.reason, count + 1);
+  if (options.skipFilter) {
+    console.log('\nFiltering skipped (--skip-filter)');
+    keptContacts.push(...allContacts);
+  } else {
+    console.log('\nFiltering contacts...');
+    const sourceCounts = contactSourceCounts(allContacts);
+    for (const contact of allContacts) {
+      const decision = decisions.contacts.get(contact.id);
+      let result = decision
+        ? reviewedFilterResult(decision)
+        : shouldFilterContact(contact, filterConfig, sourceCounts.get(contact.id));
+      const flagged = result.score?.band === 'review' || (!result.keep && HEURISTIC_RULES.includes(result.rule));
+      if (review && !review.done && flagged) {
+        result = reviewFlaggedContact(review, contact, result);
+      }
+      if (result.keep) {
+        keptContacts.push(contact);
+      } else {
+        removedContacts.push({ contact, rule: result.rule, reason: formatFilterReason(result), score: result.score });
+        stats.sourceRemoved.set(contact.source, (stats.sourceRemoved.get(contact.source) || 0) + 1);
+      }
+      if (result.score) {
+        stats.scoreBands[result.score.band]++;
+        if (result.score.band === 'review') {
+          stats.needsReview.push({ uid: contact.id, fn: contact.fn, score: result.score.total, factors: result.score.factors });
+        }
+      }
+      if (result.overrides) {
+        const instead = result.overrides;
+        stats.listOverrides.push({
+          uid: contact.id,
+          fn: contact.fn,
+          rule: result.rule,
+          entry: result.detail,
+          instead: instead.keep
+            ? `keep${instead.rule ? ` [${instead.rule}]` : ''}`
+            : `drop: ${formatFilterReason(instead)} [${instead.rule}]`,
+        });
+      }
+      // Review-band contacts are kept despite their rule, not because of it
+      if (result.rule && !(result.keep && result.score)) {
+        const byRule = result.keep ? stats.keptByRule : stats.removedByRule;
+        const entry = byRule.get(result.rule) || { reason: result.reason, count: 0 };
+        entry.count++;
+        byRule.set(result.rule, entry);
+      }
     }
-  }
 
-  stats.filteredOut = removedContacts.length;
-  console.log(`  Kept: ${keptContacts.length}`);
-  console.log(`  Filtered out: ${removedContacts.length}`);
+    stats.filteredOut = removedContacts.length;
+    console.log(`  Kept: ${keptContacts.length}`);
+    console.log(`  Filtered out: ${removedContacts.length}`);
+  }
 
   // Deduplicate contacts
-  console.log('\nDeduplicating contacts...');
-  const { deduplicated, mergeCount } = deduplicateContacts(keptContacts);
-  stats.duplicatesMerged = mergeCount;
-  stats.finalCount = deduplicated.length;
-  console.log(`  Merged ${mergeCount} duplicate entries`);
-  console.log(`  Final count: ${deduplicated.length} unique contacts`);
+  let finalContacts = keptContacts;
+  let mergeClusters: MergeAuditCluster[] = [];
+  let possibleDuplicates: PossibleDuplicate[] = [];
+  const dedupeOptions: DedupeOptions = {
+    transliterate: options.transliterate,
+    mergeThreshold: options.mergeThreshold,
+    reviewThreshold: options.reviewThreshold,
+  };
+
+  if (options.skipDedupe) {
+    console.log('\nDeduplication skipped (--skip-dedupe)');
+  } else {
+    console.log('\nDeduplicating contacts...');
+    let dedupe = deduplicateContacts(keptContacts, dedupeOptions, decisions.pairs);
+    if (review && !review.done && reviewMerges(review, keptContacts, dedupe.clusters, dedupe.possibleDuplicates)) {
+      console.log('\nDeduplicating again with the review decisions...');
+      dedupe = deduplicateContacts(keptContacts, dedupeOptions, decisions.pairs);
+    }
+    finalContacts = dedupe.deduplicated;
+    mergeClusters = dedupe.clusters;
+    possibleDuplicates = dedupe.possibleDuplicates;
+    stats.duplicatesMerged = dedupe.mergeCount;
+    stats.possibleDuplicates = possibleDuplicates.length;
+    stats.skippedNameBlocks = dedupe.skippedNameBlocks;
+    for (const cluster of mergeClusters) {
+      for (const merge of cluster.merges) {
+        stats.mergeSignals.set(merge.signal, (stats.mergeSignals.get(merge.signal) || 0) + 1);
+        for (const { field, kept, dropped } of merge.fields) {
+          if ((field === 'bday' || field === 'anniversary') && dropped.length > 0) {
+            const { uid, fn } = cluster.result;
+            stats.dateConflicts.push({ uid, fn, field, kept: kept[0], dropped: dropped[0] });
+          }
+        }
+      }
+    }
+    console.log(`  Merged ${dedupe.mergeCount} duplicate entries`);
+    console.log(`  Possible duplicates for review: ${possibleDuplicates.length}`);
+    if (dedupe.skippedNameBlocks > 0) {
+      console.warn(`  Warning: ${dedupe.skippedNameBlocks} name groups of more than ${MAX_NAME_BLOCK_SIZE} contacts were not compared by name`);
+    }
+  }
+
+  // Enrich contacts from enrich-only sources
+  let enrichments: MergeAuditCluster[] = [];
+  if (enrichRecords.length > 0) {
+    console.log('\nEnriching contacts...');
+    const enrichment = enrichContacts(finalContacts, enrichRecords, dedupeOptions);
+    finalContacts = enrichment.enriched;
+    enrichments = enrichment.enrichments;
+    stats.enrichRecords = enrichRecords.length;
+    stats.enrichedContacts = new Set(enrichments.map(e => e.result.uid)).size;
+    stats.enrichUnmatched = enrichment.unmatched;
+    console.log(`  Enriched ${stats.enrichedContacts} contacts`);
+    console.log(`  Records matching no contact: ${enrichment.unmatched}`);
+  }
+  stats.finalCount = finalContacts.length;
+  console.log(`  Final count: ${finalContacts.length} unique contacts`);
+
+  // Compare with the previous output
+  const runDate = new Date();
+  let changeReport: ChangeReport | null = null;
+  if (options.previousFile) {
+    console.log('\nComparing with previous output...');
+    const comparison = compareWithPrevious(finalContacts, previousContacts, options.previousFile, runDate, dedupeOptions);
+    finalContacts = comparison.contacts;
+    changeReport = comparison.report;
+    stats.incremental = {
+      previous: changeReport.previousCount,
+      added: changeReport.added.length,
+      removed: changeReport.removed.length,
+      changed: changeReport.changed.length,
+      unchanged: changeReport.unchanged,
+    };
+    console.log(`  New: ${stats.incremental.added}, removed: ${stats.incremental.removed}, ` +
+      `changed: ${stats.incremental.changed}, unchanged: ${stats.incremental.unchanged}`);
+  }
+
+  const invalidPhones = finalContacts.flatMap(contact =>
+    contact.phones.filter(p => p.invalid).map(p => ({ contact, phone: p.value }))
+  );
+  stats.invalidPhones = invalidPhones.length;
 
   // Write output files
-  const dateStr = new Date().toISOString().split('T')[0];
+  const dateStr = runDate.toISOString().split('T')[0];
 
   console.log('\nWriting output files...');
 
-  const googleOutput = path.join(publicDir, `cleaned-google-contacts-${dateStr}.vcf`);
-  const googleVCF = contactsToVCF(deduplicated, 'google');
-  fs.writeFileSync(googleOutput, googleVCF, 'utf-8');
-  console.log(`  Google format: ${googleOutput}`);
+  try {
+    fs.mkdirSync(options.outDir, { recursive: true });
+    if (options.dryRun) {
+      const diffFile = path.join(options.outDir, formatOutputName(DRY_RUN_PATTERN, dateStr));
+      fs.writeFileSync(diffFile, formatDryRunDiff(allContacts, removedContacts, stats.needsReview, mergeClusters, enrichments), 'utf-8');
+      console.log(`  Dry-run diff: ${diffFile}`);
+    } else {
+      for (const format of options.formats) {
+        const outputFile = path.join(options.outDir, formatOutputName(options.namePattern, dateStr, format));
+        fs.writeFileSync(outputFile, formatContacts(finalContacts, format), 'utf-8');
+        console.log(`  ${format} format: ${outputFile}`);
+      }
+
+      if (removedContacts.length > 0 && !options.skipQuarantine) {
+        const quarantined = removedContacts.map(r => r.contact);
+        for (const format of options.formats) {
+          const quarantineFile = path.join(options.outDir, formatOutputName(options.quarantinePattern, dateStr, format));
+          fs.writeFileSync(quarantineFile, formatContacts(quarantined, format), 'utf-8');
+          console.log(`  ${format} quarantine: ${quarantineFile}`);
+        }
+
+        const reportFile = path.join(options.outDir, formatOutputName(QUARANTINE_REPORT_PATTERN, dateStr));
+        const report = buildQuarantineReport(removedContacts, runDate);
+        fs.writeFileSync(reportFile, JSON.stringify(report, null, 2) + '\n', 'utf-8');
+        console.log(`  Quarantine report: ${reportFile}`);
+      }
+
+      if ((mergeClusters.length > 0 || enrichments.length > 0) && !options.skipAudit) {
+        const auditBase = path.join(options.outDir, formatOutputName(MERGE_AUDIT_PATTERN, dateStr));
+        const audit = { generatedAt: runDate.toISOString(), clusters: mergeClusters, enrichments };
+        fs.writeFileSync(`${auditBase}.json`, JSON.stringify(audit, null, 2) + '\n', 'utf-8');
+        fs.writeFileSync(`${auditBase}.txt`, formatMergeAuditText(mergeClusters, enrichments), 'utf-8');
+        console.log(`  Merge audit: ${auditBase}.json, ${auditBase}.txt`);
+      }
+
+      if (possibleDuplicates.length > 0) {
+        const reviewBase = path.join(options.outDir, formatOutputName(POSSIBLE_DUPLICATES_PATTERN, dateStr));
+        const review = { generatedAt: runDate.toISOString(), pairs: possibleDuplicates };
+        fs.writeFileSync(`${reviewBase}.json`, JSON.stringify(review, null, 2) + '\n', 'utf-8');
+        fs.writeFileSync(`${reviewBase}.txt`, formatPossibleDuplicatesText(possibleDuplicates), 'utf-8');
+        console.log(`  Possible duplicates: ${reviewBase}.json, ${reviewBase}.txt`);
+      }
+    }
+
+    if (changeReport) {
+      const changesBase = path.join(options.outDir, formatOutputName(CHANGES_PATTERN, dateStr));
+      fs.writeFileSync(`${changesBase}.json`, JSON.stringify(changeReport, null, 2) + '\n', 'utf-8');
+      fs.writeFileSync(`${changesBase}.txt`, formatChangeReportText(changeReport), 'utf-8');
+      console.log(`  Changes: ${changesBase}.json, ${changesBase}.txt`);
+    }
 
-  const appleOutput = path.join(publicDir, `cleaned-apple-contacts-${dateStr}.vcf`);
-  const appleVCF = contactsToVCF(deduplicated, 'apple');
-  fs.writeFileSync(appleOutput, appleVCF, 'utf-8');
-  console.log(`  Apple format: ${appleOutput}`);
+    const runReportFile = path.join(options.outDir, formatOutputName(RUN_REPORT_PATTERN, dateStr));
+    const runReport = buildRunReport(stats, options, runDate);
+    fs.writeFileSync(runReportFile, JSON.stringify(runReport, null, 2) + '\n', 'utf-8');
+    console.log(`  Run report: ${runReportFile}`);
+  } catch (err) {
+    console.error(`Cannot write output: ${(err as Error).message}`);
+    return EXIT_FAILURE;
+  }
 
   // Print summary
   console.log('\n' + '='.repeat(60));
   console.log('Summary');
   console.log('='.repeat(60));
-  console.log(`Google contacts read:    ${stats.googleTotal}`);
-  console.log(`Apple contacts read:     ${stats.appleTotal}`);
+  for (const [source, total] of stats.sourceTotals) {
+    console.log(`${`${source} contacts read:`.padEnd(25)}${total}`);
+  }
   console.log(`Combined total:          ${stats.combinedTotal}`);
+  if (options.normalizeNames) {
+    console.log(`Names normalized:        ${stats.namesNormalized.length}`);
+  }
   console.log(`Filtered out:            ${stats.filteredOut}`);
   console.log(`Duplicates merged:       ${stats.duplicatesMerged}`);
+  if (stats.enrichRecords > 0) {
+    console.log(`Enrich-only records:     ${stats.enrichRecords}`);
+    console.log(`Contacts enriched:       ${stats.enrichedContacts}`);
+  }
   console.log(`Final unique contacts:   ${stats.finalCount}`);
+  if (stats.incremental) {
+    console.log(`New since previous:      ${stats.incremental.added}`);
+    console.log(`Removed since previous:  ${stats.incremental.removed}`);
+    console.log(`Changed since previous:  ${stats.incremental.changed}`);
+  }
 
-  if (stats.filterReasons.size > 0) {
+  if (invalidPhones.length > 0) {
+    console.log(`\nPhone numbers that cannot be valid: ${invalidPhones.length}`);
+    for (const { contact, phone } of invalidPhones.slice(0, 10)) {
+      console.log(`  ${phone.padEnd(20)} ${contact.fn || '(no name)'}`);
+    }
+    if (invalidPhones.length > 10) {
+      console.log(`  ... and ${invalidPhones.length - 10} more`);
+    }
+  }
+
+  if (stats.removedByRule.size > 0) {
     console.log('\nFilter reasons:');
-    const sortedReasons = Array.from(stats.filterReasons.entries())
-      .sort((a, b) => b[1] - a[1]);
-    for (const [reason, count] of sortedReasons) {
-      console.log(`  ${count.toString().padStart(5)} - ${reason}`);
+    const sortedRules = Array.from(stats.removedByRule.entries())
+      .sort((a, b) => b[1].count - a[1].count);
+    for (const [rule, { reason, count }] of sortedRules) {
+      console.log(`  ${count.toString().padStart(5)} - ${reason} [${rule}]`);
+    }
+  }
+
+  if (stats.dateConflicts.length > 0) {
+    console.log('\nConflicting dates in merged contacts (first kept):');
+    for (const { fn, field, kept, dropped } of stats.dateConflicts) {
+      console.log(`  ${fn || '(no name)'}: ${field === 'bday' ? 'birthday' : 'anniversary'} ${kept}, also ${dropped}`);
+    }
+  }
+
+  if (stats.needsReview.length > 0) {
+    console.log(`\nKept for review (score below ${filterConfig.scoring.keepAt}): ${stats.needsReview.length}`);
+    for (const { fn, score, factors } of stats.needsReview.slice(0, 10)) {
+      console.log(`  ${fn || '(no name)'}: ${formatQualityScore({ total: score, band: 'review', factors })}`);
+    }
+    if (stats.needsReview.length > 10) {
+      console.log(`  ... and ${stats.needsReview.length - 10} more (all are listed in the run report)`);
+    }
+  }
+
+  if (stats.listOverrides.length > 0) {
+    console.log('\nKeep and drop list overrides:');
+    for (const override of stats.listOverrides) {
+      console.log(`  ${override.fn || '(no name)'}: ${override.rule} (${override.entry}), rules said ${override.instead}`);
     }
   }
 
@@ -1247,17 +5917,24 @@ function main() {
     console.log('\nSample of removed contacts (first 20):');
     console.log('-'.repeat(60));
     for (const { contact, reason } of removedContacts.slice(0, 20)) {
-      const emailStr = contact.emails.length > 0 ? ` <${contact.emails[0]}>` : '';
-      const phoneStr = contact.phones.length > 0 ? ` (${contact.phones[0]})` : '';
+      const emailStr = contact.emails.length > 0 ? ` <${contact.emails[0].value}>` : '';
+      const phoneStr = contact.phones.length > 0 ? ` (${contact.phones[0].value})` : '';
       console.log(`  ${contact.fn || '(no name)'}${emailStr}${phoneStr}`);
       console.log(`    Reason: ${reason}`);
     }
+    if (removedContacts.length > 20) {
+      const where = options.dryRun ? ' (all are listed in the dry-run diff)'
+        : options.skipQuarantine ? '' : ' (all are listed in the quarantine report)';
+      console.log(`  ... and ${removedContacts.length - 20} more${where}`);
+    }
   }
 
   console.log('\n' + '='.repeat(60));
   console.log('Done!');
   console.log('='.repeat(60));
+
+  return EXIT_OK;
 }
 
 // Run the script
-main();
+process.exitCode = main(process.argv.slice(2));
@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readContacts, readOutput, runScript } from './run';
+
+function csv(rows: string[][]): string {
+  return rows.map(row => row.map(cell => (/[",\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell)).join(',')).join('\r\n') + '\r\n';
+}
+
+const GOOGLE_CSV = csv([
+  ['Name', 'Given Name', 'Family Name', 'Nickname', 'Birthday', 'Notes', 'Group Membership',
+    'E-mail 1 - Type', 'E-mail 1 - Value', 'Phone 1 - Type', 'Phone 1 - Value', 'Phone 2 - Type', 'Phone 2 - Value',
+    'Organization 1 - Name', 'Organization 1 - Title', 'Relation 1 - Type', 'Relation 1 - Value',
+    'Event 1 - Type', 'Event 1 - Value', 'Custom Field 1 - Type', 'Custom Field 1 - Value'],
+  ['John Smith', 'John', 'Smith', 'Johnny', '1980-05-01', 'Met at conf, 2019\nsecond line', '* myContacts ::: Friends',
+    '* Work', 'john@example.com ::: js@work.com', '* Mobile', '(415) 555-1234', 'Google Voice', '+1 415 555 9999',
+    'Acme', 'CEO', 'Spouse', 'Jane Smith',
+    'Anniversary', '2005-06-01', 'Shirt size', 'L'],
+]);
+
+test('Google CSV keeps labels, groups, relations, events and custom fields', () => {
+  const apple = readOutput(runScript({ 'google=google.csv': GOOGLE_CSV }, ['-f', 'apple']), 'cleaned-apple-');
+  assert.match(apple, /^FN:John Smith$/m);
+  assert.match(apple, /^EMAIL;TYPE=INTERNET,WORK,PREF:john@example\.com$/m);
+  assert.match(apple, /^EMAIL;TYPE=INTERNET,WORK:js@work\.com$/m);
+  assert.match(apple, /^TEL;TYPE=CELL,PREF:\+14155551234$/m);
+  assert.match(apple, /^item\d\.TEL:\+14155559999\r\nitem\d\.X-ABLabel:Google Voice$/m);
+  assert.match(apple, /^NOTE:Met at conf\\, 2019\\nsecond line$/m);
+  assert.match(apple, /^item\d\.X-ABDATE:2005-06-01\r\nitem\d\.X-ABLabel:_\$!<Anniversary>!\$_$/m);
+  assert.match(apple, /^item\d\.X-ABRELATEDNAMES:Jane Smith\r\nitem\d\.X-ABLabel:_\$!<Spouse>!\$_$/m);
+  assert.match(apple, /^item\d\.X-CUSTOM:L\r\nitem\d\.X-ABLabel:Shirt size$/m);
+  assert.match(apple, /^NICKNAME:Johnny$/m);
+  assert.match(apple, /^CATEGORIES:Friends$/m);
+});
+
+test('Outlook CSV in Windows-1252 is read with its honorific, month-first dates and phone columns', () => {
+  const outlook = Buffer.from(csv([
+    ['First Name', 'Last Name', 'Title', 'E-mail Address', 'E-mail 2 Address', 'Primary Phone', 'Business Phone',
+      'Mobile Phone', 'Company', 'Job Title', 'Birthday', 'Anniversary', 'Categories'],
+    ['María', 'García', 'Dr.', 'maria@empresa.es', '/o=ExchangeLabs/ou=x', '+34 912 345 678', '+34 912 345 678',
+      '+34 612 345 678', 'Empresa SA', 'Directora', '3/7/1975', '0/0/00', 'Work;VIP'],
+  ]), 'latin1');
+  const [contact] = readContacts(runScript({ 'outlook=contacts.csv': outlook }, ['-f', 'json']));
+  assert.equal(contact.fn, 'Dr. María García');
+  assert.deepEqual([contact.name?.prefixes, contact.name?.given, contact.name?.family], ['Dr.', 'María', 'García']);
+  // Exchange-internal addresses are not email addresses
+  assert.deepEqual(contact.emails.map(e => e.value), ['maria@empresa.es']);
+  // The primary phone repeats the business phone
+  assert.deepEqual(contact.phones.map(p => p.value), ['+34912345678', '+34612345678']);
+  assert.deepEqual([contact.org, contact.title], [['Empresa SA'], 'Directora']);
+  assert.deepEqual([contact.bday, contact.anniversary], ['1975-03-07', '']);
+});
+
+test('CSV rows merge with vCard contacts like any other source', () => {
+  const contacts = readContacts(runScript({
+    'google=google.csv': GOOGLE_CSV,
+    'apple=apple.vcf': 'BEGIN:VCARD\r\nVERSION:3.0\r\nFN:Johnny Smith\r\nEMAIL:john@example.com\r\nEND:VCARD\r\n',
+  }, ['-f', 'json']));
+  assert.equal(contacts.length, 1);
+});
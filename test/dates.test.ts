@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readContacts, readOutput, runScript, vcard } from './run';
+
+test('dates are read in every form the sources write them', () => {
+  const forms = ['1990-04-15', '19900415', '--0415', '--04-15', '1604-04-15', '1990-04-15T00:00:00Z', '15/04/1990', '15.04.1990', 'sometime in April'];
+  const cards = forms.map((bday, i) => vcard([`FN:Person ${i}`, `TEL:+1415555${1000 + i}`, `BDAY:${bday}`]));
+  const contacts = readContacts(runScript({ 'input.vcf': cards.join('') }, ['-f', 'json', '--skip-filter', '--skip-dedupe']));
+  assert.deepEqual(contacts.map(c => c.bday), [
+    '1990-04-15', '1990-04-15', '--04-15', '--04-15', '--04-15', '1990-04-15', '1990-04-15', '1990-04-15', 'sometime in April',
+  ]);
+});
+
+test('each target gets the date form it understands', () => {
+  const cards = [
+    vcard(['FN:With Year', 'TEL:+14155551000', 'BDAY:1990-04-15']),
+    vcard(['FN:Without Year', 'TEL:+14155551001', 'BDAY;X-APPLE-OMIT-YEAR=1604:1604-04-15']),
+  ].join('');
+  const dir = runScript({ 'input.vcf': cards }, ['-f', 'google,apple,vcard4,outlook-csv', '--skip-filter']);
+  const bdays = (prefix: string) => readOutput(dir, prefix).match(/^BDAY.*$/gm);
+  assert.deepEqual(bdays('cleaned-google-'), ['BDAY:1990-04-15', 'BDAY:--0415']);
+  assert.deepEqual(bdays('cleaned-apple-'), ['BDAY:1990-04-15', 'BDAY;X-APPLE-OMIT-YEAR=1604:1604-04-15']);
+  assert.deepEqual(bdays('cleaned-vcard4-'), ['BDAY:19900415', 'BDAY:--0415']);
+
+  const outlook = readOutput(dir, 'cleaned-outlook-csv-');
+  assert.match(outlook, /,4\/15\/1990,/);
+  // Outlook has no dates without a year; that one goes into the notes
+  assert.match(outlook, /Birthday: --04-15/);
+});
+
+test('Outlook CSV dates are month first, with two-digit years before this one', () => {
+  const csv = 'First Name,Last Name,Mobile Phone,Birthday,Anniversary\r\nTina,Two,+1 415 555 1000,4/15/90,6/1/05\r\n';
+  const [contact] = readContacts(runScript({ 'outlook.csv': csv }, ['-f', 'json']));
+  assert.deepEqual([contact.bday, contact.anniversary], ['1990-04-15', '2005-06-01']);
+});
+
+test('other date properties are normalized too', () => {
+  const [contact] = readContacts(runScript({
+    'input.vcf': vcard([
+      'FN:Dora Dates', 'TEL:+14155551000',
+      'item1.X-ABDATE;X-APPLE-OMIT-YEAR=1604:1604-05-06', 'item1.X-ABLabel:_$!<Other>!$_',
+      'X-ANNIVERSARY:15.04.1990', 'DEATHDATE:20200102',
+    ]),
+  }, ['-f', 'json', '--skip-filter']));
+  assert.deepEqual(contact.propertyGroups, [['X-ABDATE:--05-06', 'X-ABLabel:_$!<Other>!$_']]);
+  assert.deepEqual(contact.otherProperties['X-ANNIVERSARY'], ['X-ANNIVERSARY:1990-04-15']);
+  assert.deepEqual(contact.otherProperties['DEATHDATE'], ['DEATHDATE:2020-01-02']);
+});
+
+test('a date with a year fills in the same day without one; different dates are reported', () => {
+  const dir = runScript({
+    'input.vcf': [
+      vcard(['FN:Ann Lee', 'EMAIL:ann@example.org', 'BDAY:--04-15']),
+      vcard(['FN:Ann Lee', 'EMAIL:ann@example.org', 'TEL:+14155551000', 'BDAY:1990-04-15']),
+      vcard(['FN:Bo Park', 'EMAIL:bo@example.org', 'TEL:+14155551001', 'BDAY:1985-01-02']),
+      vcard(['FN:Bo Park', 'EMAIL:bo@example.org', 'BDAY:1985-02-01']),
+    ].join(''),
+  }, ['-f', 'json', '--skip-filter']);
+  const contacts = readContacts(dir);
+  assert.deepEqual(contacts.map(c => [c.fn, c.bday]), [['Ann Lee', '1990-04-15'], ['Bo Park', '1985-01-02']]);
+  const report = JSON.parse(readOutput(dir, 'run-report-'));
+  assert.deepEqual(report.dateConflicts.map((c: { fn: string; kept: string; dropped: string }) => [c.fn, c.kept, c.dropped]), [
+    ['Bo Park', '1985-01-02', '1985-02-01'],
+  ]);
+});
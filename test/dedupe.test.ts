@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { JsonContact, readContacts, readOutput, runScript, vcard } from './run';
+
+/** Run the script on one VCF and return the contacts of its JSON output. */
+function processVCF(vcf: string): JsonContact[] {
+  return readContacts(runScript({ 'input.vcf': vcf }, ['-f', 'json']));
+}
+
+test('colleagues with similar names at the same company are not merged', () => {
+  const contacts = processVCF([
+    'BEGIN:VCARD', 'VERSION:3.0', 'FN:Mark Smith', 'EMAIL:mark@acme.com', 'TEL:+14155550101', 'ORG:Acme', 'END:VCARD',
+    'BEGIN:VCARD', 'VERSION:3.0', 'FN:Mary Smith', 'EMAIL:mary@acme.com', 'TEL:+14155550102', 'ORG:Acme', 'END:VCARD',
+  ].join('\r\n'));
+  assert.deepEqual(contacts.map(c => c.fn).sort(), ['Mark Smith', 'Mary Smith']);
+});
+
+test('a nickname at the same company is merged', () => {
+  const contacts = processVCF([
+    'BEGIN:VCARD', 'VERSION:3.0', 'FN:Bob Smith', 'EMAIL:bob@acme.com', 'TEL:+14155550101', 'ORG:Acme', 'END:VCARD',
+    'BEGIN:VCARD', 'VERSION:3.0', 'FN:Robert Smith', 'EMAIL:robert@acme.com', 'TEL:+14155550102', 'ORG:Acme', 'END:VCARD',
+  ].join('\r\n'));
+  assert.deepEqual(contacts.map(c => c.fn), ['Robert Smith']);
+});
+
+test('a typo of the given name at the same company is merged', () => {
+  const contacts = processVCF([
+    'BEGIN:VCARD', 'VERSION:3.0', 'FN:Jonh Smith', 'EMAIL:jonh@acme.com', 'TEL:+14155550101', 'ORG:Acme', 'END:VCARD',
+    'BEGIN:VCARD', 'VERSION:3.0', 'FN:John Smith', 'EMAIL:john@acme.com', 'TEL:+14155550102', 'ORG:Acme', 'END:VCARD',
+  ].join('\r\n'));
+  assert.equal(contacts.length, 1);
+});
+
+test('a family name shared by more than 2,000 contacts is compared within each given-name initial', () => {
+  // Distinct given names without digits, spread over the initials B to Z
+  const spell = (i: number) => (i < 26 ? '' : spell(Math.floor(i / 26) - 1)) + String.fromCharCode(97 + (i % 26));
+  const cards: string[] = [];
+  for (let i = 0; i < 2100; i++) {
+    const initial = String.fromCharCode(65 + (i % 25) + 1);
+    cards.push(vcard([`FN:${initial}${spell(i)}x Smith`, `EMAIL:smith${i}@example.org`]));
+  }
+  cards.push(vcard(['FN:Jonh Smith', 'EMAIL:jonh@acme.com', 'ORG:Acme']));
+  cards.push(vcard(['FN:John Smith', 'EMAIL:john@acme.com', 'ORG:Acme']));
+  // Too many to compare even after splitting: every given name starts with J
+  for (let i = 0; i < 2001; i++) cards.push(vcard([`FN:J${spell(i)}x Doe`, `EMAIL:doe${i}@example.org`]));
+
+  const dir = runScript({ 'input.vcf': cards.join('') }, ['-f', 'json', '--skip-filter']);
+  const john = readContacts(dir).find(c => c.emails.some(e => e.value === 'john@acme.com'))!;
+  assert.deepEqual(john.emails.map(e => e.value).sort(), ['john@acme.com', 'jonh@acme.com']);
+  const report = JSON.parse(readOutput(dir, 'run-report-'));
+  // The J sub-block of the Doe family block
+  assert.equal(report.stages.dedupe.skippedNameBlocks, 1);
+});
@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { JsonContact, readContacts, readOutput, runScript, vcard } from './run';
+
+const CARDS = [
+  vcard(['FN:Mom', 'TEL;TYPE=CELL:+14155550100']),
+  vcard(['FN:Dr. Ann Lee (Work)', 'N:Lee;Ann;;Dr.;', 'TEL;TYPE=WORK:+14155550101', 'ORG:Initech', 'TITLE:CTO']),
+  vcard([
+    'FN:Bea Quinn', 'N:Quinn;Bea;;;',
+    'EMAIL;TYPE=HOME:bea@example.org', 'EMAIL;TYPE=WORK:bea@initech.com', 'EMAIL:bea@quinn.family', 'EMAIL:bq@example.net',
+    'item1.TEL:+14155550102', 'item1.X-ABLabel:Studio',
+    'BDAY:1990-04-15',
+  ]),
+].join('');
+
+/** Export CARDS in one format, read the file back in and return both runs' contacts by name. */
+function roundTrip(format: string, file: string): Array<{ before: JsonContact; after: JsonContact }> {
+  const dir = runScript({ 'input.vcf': CARDS }, ['-f', `json,${format}`, '--skip-filter']);
+  const before = readContacts(dir);
+  const exported = readOutput(dir, `cleaned-${format}-`);
+  const after = readContacts(runScript({ [file]: exported }, ['-f', 'json', '--skip-filter']));
+  return before.map(contact => ({ before: contact, after: after.find(c => c.fn === contact.fn)! }));
+}
+
+test('Outlook CSV keeps single names out of Last Name and writes the display name', () => {
+  const outlook = readOutput(runScript({ 'input.vcf': CARDS }, ['-f', 'outlook-csv', '--skip-filter']), 'cleaned-outlook-csv-');
+  const [header, ...rows] = outlook.trim().split('\r\n').map(line => line.split(','));
+  const column = (row: string[], name: string) => row[header.indexOf(name)];
+  const mom = rows.find(row => column(row, 'Display Name') === 'Mom')!;
+  assert.deepEqual([column(mom, 'First Name'), column(mom, 'Last Name')], ['Mom', '']);
+  assert.ok(rows.some(row => column(row, 'Display Name') === 'Dr. Ann Lee (Work)'));
+});
+
+test('an Outlook CSV export reads back as the same contacts', () => {
+  for (const { before, after } of roundTrip('outlook-csv', 'outlook.csv')) {
+    assert.ok(after, `${before.fn} was read back`);
+    assert.deepEqual(after.name, before.name);
+    // The fourth email goes through the notes
+    assert.deepEqual(after.emails.map(e => e.value).sort(), before.emails.map(e => e.value).sort());
+    assert.deepEqual(after.phones.map(p => p.value), before.phones.map(p => p.value));
+    assert.deepEqual([after.org, after.title, after.bday], [before.org, before.title, before.bday]);
+  }
+});
+
+test('a Google CSV export reads back with its labels', () => {
+  for (const { before, after } of roundTrip('google-csv', 'google.csv')) {
+    assert.ok(after, `${before.fn} was read back`);
+    assert.deepEqual(after.name, before.name);
+    assert.deepEqual(after.emails.map(e => e.value), before.emails.map(e => e.value));
+    assert.deepEqual(after.phones.map(p => [p.value, p.label]), before.phones.map(p => [p.value, p.label]));
+    assert.deepEqual([after.org, after.title, after.bday], [before.org, before.title, before.bday]);
+  }
+});
+
+test('JSON has a schema version and every field on every contact', () => {
+  const document = JSON.parse(readOutput(runScript({ 'input.vcf': CARDS }, ['-f', 'json', '--skip-filter']), 'cleaned-json-'));
+  assert.equal(document.schemaVersion, 1);
+  const fields = Object.keys(document.contacts[0]).sort();
+  for (const contact of document.contacts) assert.deepEqual(Object.keys(contact).sort(), fields);
+  assert.ok(fields.includes('otherProperties') && fields.includes('propertyGroups'));
+});
@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readContacts, runScript, vcard } from './run';
+
+/** The structured name parsed from each display name, as [prefixes, given, additional, family, suffixes]. */
+function parsedNames(names: string[]): Record<string, string[]> {
+  // Each card needs a distinct phone, or the filters and deduplication would weigh in
+  const cards = names.map((fn, i) => vcard([`FN:${fn.replace(/,/g, '\\,')}`, `TEL:+1415555${String(1000 + i)}`]));
+  const contacts = readContacts(runScript({ 'input.vcf': cards.join('') }, ['-f', 'json', '--skip-filter', '--skip-dedupe']));
+  return Object.fromEntries(contacts.map(c => [
+    c.fn,
+    c.name ? [c.name.prefixes, c.name.given, c.name.additional, c.name.family, c.name.suffixes] : [],
+  ]));
+}
+
+test('display names are split into honorifics, given, middle and family names', () => {
+  assert.deepEqual(parsedNames([
+    'Dr. Jane Q. Public',
+    'John Smith, Jr., PhD',
+    'Prof. Alan Turing OBE',
+    'Madonna',
+  ]), {
+    'Dr. Jane Q. Public': ['Dr.', 'Jane', 'Q.', 'Public', ''],
+    'John Smith, Jr., PhD': ['', 'John', '', 'Smith', 'Jr. PhD'],
+    'Prof. Alan Turing OBE': ['Prof.', 'Alan', '', 'Turing', 'OBE'],
+    'Madonna': ['', 'Madonna', '', '', ''],
+  });
+});
+
+test('Last, First is read family name first, except for companies and longer phrases', () => {
+  const names = parsedNames(['Smith, John', 'Müller, Dr. Anna', 'Acme, Inc.', 'Sales, North East Region Team']);
+  assert.deepEqual(names['Smith, John'], ['', 'John', '', 'Smith', '']);
+  assert.deepEqual(names['Müller, Dr. Anna'], ['Dr.', 'Anna', '', 'Müller', '']);
+  assert.notEqual(names['Acme, Inc.'][3], 'Acme');
+  assert.notEqual(names['Sales, North East Region Team'][3], 'Sales');
+});
+
+test('surname particles stay with the family name', () => {
+  const names = parsedNames(['Maria van der Berg', 'Mohammed bin Salman', 'Ahmed al-Sayed']);
+  assert.deepEqual(names['Maria van der Berg'].slice(1, 4), ['Maria', '', 'van der Berg']);
+  assert.deepEqual(names['Mohammed bin Salman'].slice(1, 4), ['Mohammed', '', 'bin Salman']);
+  assert.deepEqual(names['Ahmed al-Sayed'].slice(1, 4), ['Ahmed', '', 'al-Sayed']);
+});
+
+test('Chinese, Japanese and Korean names are read family name first', () => {
+  const names = parsedNames(['王小明', '山田 太郎', '김민준']);
+  assert.deepEqual(names['王小明'].slice(1, 4), ['小明', '', '王']);
+  assert.deepEqual(names['山田 太郎'].slice(1, 4), ['太郎', '', '山田']);
+  assert.deepEqual(names['김민준'].slice(1, 4), ['민준', '', '김']);
+});
@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readContacts, runScript, vcard } from './run';
+
+/** The phone numbers of each contact, by display name, after a run without deduplication. */
+function phonesByName(cards: string[], args: string[] = []): Record<string, string[]> {
+  const contacts = readContacts(runScript({ 'input.vcf': cards.join('') }, ['-f', 'json', '--skip-filter', '--skip-dedupe', ...args]));
+  return Object.fromEntries(contacts.map(c => [c.fn, c.phones.map(p => p.value)]));
+}
+
+test('national, formatted and internationally dialled numbers become E.164', () => {
+  const phones = phonesByName([
+    vcard(['FN:Plus Format', 'TEL:+1 415 555 1234']),
+    vcard(['FN:National Format', 'TEL:(415) 555-1234']),
+    vcard(['FN:Zero Zero', 'TEL:001 415 555 1234']),
+    vcard(['FN:Trunk After Code', 'TEL:+44 (0)20 7123 4567']),
+    vcard(['FN:US Exit Code', 'TEL:011 44 20 7123 4567']),
+  ]);
+  assert.deepEqual(phones, {
+    'Plus Format': ['+14155551234'],
+    'National Format': ['+14155551234'],
+    'Zero Zero': ['+14155551234'],
+    'Trunk After Code': ['+442071234567'],
+    'US Exit Code': ['+442071234567'],
+  });
+});
+
+test('numbers without a country code are read in the country of the address, then --region', () => {
+  const phones = phonesByName([
+    vcard(['FN:Berlin Office', 'TEL:030 1234567', 'ADR;TYPE=WORK:;;Unter den Linden 1;Berlin;;10117;Germany']),
+    vcard(['FN:No Address', 'TEL:020 7123 4567']),
+  ], ['--region', 'GB']);
+  assert.deepEqual(phones, {
+    'Berlin Office': ['+49301234567'],
+    'No Address': ['+442071234567'],
+  });
+});
+
+test('numbers that fit no numbering plan are kept and marked invalid', () => {
+  const contacts = readContacts(runScript({ 'input.vcf': vcard(['FN:Short Number', 'TEL:123 456 789']) }, ['-f', 'json', '--skip-filter']));
+  assert.deepEqual(contacts[0].phones.map(p => [p.value, p.invalid]), [['123456789', true]]);
+});
+
+test('the same number written two ways merges two records', () => {
+  const contacts = readContacts(runScript({
+    'input.vcf': vcard(['FN:Ann Lee', 'TEL:+1 415 555 1234']) + vcard(['FN:Annie', 'TEL:(415) 555-1234']),
+  }, ['-f', 'json', '--skip-filter']));
+  assert.equal(contacts.length, 1);
+});
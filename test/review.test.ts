@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Run the script with --review on one VCF, typing `answers` at its prompts.
+ * --review needs a terminal, so the run goes through util-linux `script`,
+ * which gives it one.
+ */
+function reviewVCF(vcf: string, answers: string): { output: string; contacts: Array<{ fn: string }>; dir: string } {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'contacts-'));
+  const input = path.join(dir, 'input.vcf');
+  fs.writeFileSync(input, vcf, 'utf-8');
+  const command = [process.execPath, '--import', 'tsx', 'process-contacts.ts', input, '-o', dir, '-f', 'json', '--skip-quarantine', '--review']
+    .map(arg => JSON.stringify(arg))
+    .join(' ');
+  const output = execFileSync('script', ['-qec', command, '/dev/null'], { input: answers, encoding: 'utf-8' });
+  const file = fs.readdirSync(dir).find(f => f.startsWith('cleaned-json-'))!;
+  return { output, contacts: JSON.parse(fs.readFileSync(path.join(dir, file), 'utf-8')).contacts, dir };
+}
+
+const CORPORATE_ONLY = [
+  'BEGIN:VCARD', 'VERSION:3.0', 'FN:Jane', 'EMAIL:jane@google.com', 'END:VCARD',
+  'BEGIN:VCARD', 'VERSION:3.0', 'FN:Sam Smith', 'EMAIL:sam@example.org', 'TEL:+14155550100', 'END:VCARD',
+].join('\r\n');
+
+test('a corporate-email-only contact in the drop band is asked about and can be kept', { skip: process.platform !== 'linux' }, () => {
+  const { output, contacts, dir } = reviewVCF(CORPORATE_ONLY, 'k\n');
+  assert.match(output, /Dropped: Corporate email without phone: jane@google\.com \[corporate-email-no-phone\]/);
+  assert.deepEqual(contacts.map(c => c.fn).sort(), ['Jane', 'Sam Smith']);
+
+  const decisions = JSON.parse(fs.readFileSync(path.join(dir, 'review-decisions.json'), 'utf-8'));
+  assert.deepEqual(decisions.contacts.map((d: { fn: string; decision: string }) => [d.fn, d.decision]), [['Jane', 'keep']]);
+});
+
+test('a heuristic drop left for later stays dropped', { skip: process.platform !== 'linux' }, () => {
+  const { contacts } = reviewVCF(CORPORATE_ONLY, '\n');
+  assert.deepEqual(contacts.map(c => c.fn), ['Sam Smith']);
+});
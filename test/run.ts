@@ -0,0 +1,55 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Write `inputs` (file name to content) to a fresh directory and run the
+ * script on them with `args`; returns the directory, which also holds the
+ * output. An input named `label=file` is passed with that source label.
+ */
+export function runScript(inputs: Record<string, string | Buffer>, args: string[] = []): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'contacts-'));
+  const files = Object.entries(inputs).map(([name, content]) => {
+    const [label, file] = name.includes('=') ? name.split('=') : ['', name];
+    fs.writeFileSync(path.join(dir, file), content, 'utf-8');
+    return `${label ? `${label}=` : ''}${path.join(dir, file)}`;
+  });
+  execFileSync(process.execPath, ['--import', 'tsx', 'process-contacts.ts', ...files, '-o', dir, '--skip-quarantine', ...args], {
+    stdio: 'pipe',
+  });
+  return dir;
+}
+
+/** The content of the output file whose name starts with `prefix`. */
+export function readOutput(dir: string, prefix: string): string {
+  const file = fs.readdirSync(dir).find(f => f.startsWith(prefix));
+  if (!file) throw new Error(`no output file ${prefix}* in ${dir}`);
+  return fs.readFileSync(path.join(dir, file), 'utf-8');
+}
+
+/** The contacts of a run with `-f json`. */
+export function readContacts(dir: string): JsonContact[] {
+  return JSON.parse(readOutput(dir, 'cleaned-json-')).contacts;
+}
+
+/** A vCard 3.0 card with the given property lines. */
+export function vcard(lines: string[]): string {
+  return ['BEGIN:VCARD', 'VERSION:3.0', ...lines, 'END:VCARD'].join('\r\n') + '\r\n';
+}
+
+export interface JsonContact {
+  uid: string;
+  fn: string;
+  name: { family: string; given: string; additional: string; prefixes: string; suffixes: string } | null;
+  emails: Array<{ value: string; types: string[]; label: string }>;
+  phones: Array<{ value: string; types: string[]; label: string; invalid: boolean }>;
+  org: string[];
+  title: string;
+  note: string;
+  photo: string;
+  bday: string;
+  anniversary: string;
+  otherProperties: Record<string, string[]>;
+  propertyGroups: string[][];
+}
@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/** The UID the script derives for the one record of a VCF, read under `input` (`[label=]file`). */
+function derivedUid(vcf: string, input: string): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'contacts-'));
+  const [label, file] = input.includes('=') ? input.split('=') : ['', input];
+  fs.writeFileSync(path.join(dir, file), vcf, 'utf-8');
+  const arg = `${label ? `${label}=` : ''}${path.join(dir, file)}`;
+  execFileSync(process.execPath, ['--import', 'tsx', 'process-contacts.ts', arg, '-o', dir, '-f', 'json', '--skip-filter'], {
+    stdio: 'pipe',
+  });
+  const output = fs.readdirSync(dir).find(f => f.startsWith('cleaned-json-'))!;
+  const [contact] = JSON.parse(fs.readFileSync(path.join(dir, output), 'utf-8')).contacts;
+  return contact.uid;
+}
+
+function card(lines: string[]): string {
+  return ['BEGIN:VCARD', 'VERSION:3.0', 'FN:Ada Lovelace', 'N:Lovelace;Ada;;;', ...lines, 'END:VCARD'].join('\r\n');
+}
+
+test('records without a UID keep it across a new REV, an edited note and a renamed source', () => {
+  const first = derivedUid(
+    card(['EMAIL:ada@example.org', 'TEL:+442071234567', 'REV:2024-05-01T10:00:00Z', 'NOTE:Met at the conference']),
+    'google=google-2024-05-01.vcf'
+  );
+  const second = derivedUid(
+    card(['EMAIL:ada@example.org', 'TEL:+442071234567', 'REV:2024-09-12T08:30:00Z', 'NOTE:Met at the conference, again']),
+    'phone=export.vcf'
+  );
+  assert.match(first, /^contact-[0-9a-f]{16}$/);
+  assert.equal(second, first);
+});
+
+test('a changed email gives a new UID', () => {
+  const first = derivedUid(card(['EMAIL:ada@example.org', 'TEL:+442071234567']), 'contacts.vcf');
+  const second = derivedUid(card(['EMAIL:ada@analytical.engine', 'TEL:+442071234567']), 'contacts.vcf');
+  assert.notEqual(second, first);
+});
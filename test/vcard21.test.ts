@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readContacts, readOutput, runScript } from './run';
+
+function card21(lines: string[]): string {
+  return ['BEGIN:VCARD', 'VERSION:2.1', ...lines, 'END:VCARD'].join('\r\n') + '\r\n';
+}
+
+test('quoted-printable values are decoded in their charset, across soft line breaks', () => {
+  const dir = runScript({
+    'phone.vcf': card21([
+      'N;CHARSET=UTF-8;ENCODING=QUOTED-PRINTABLE:Cl=C3=A9ment;Ren=C3=A9;;;',
+      'FN;CHARSET=UTF-8;ENCODING=QUOTED-PRINTABLE:Ren=C3=A9 Cl=C3=A9m=',
+      'ent',
+      'NOTE;ENCODING=QUOTED-PRINTABLE:Line one=0D=0ALine two',
+      'TEL;CELL:+33 6 12 34 56 78',
+    ]),
+  }, ['-f', 'json,google']);
+  const [contact] = readContacts(dir);
+  assert.equal(contact.fn, 'René Clément');
+  assert.deepEqual([contact.name?.family, contact.name?.given], ['Clément', 'René']);
+  assert.equal(contact.note.replace(/\r\n/g, '\n'), 'Line one\nLine two');
+  // Written back out as plain vCard 3.0
+  const google = readOutput(dir, 'cleaned-google-');
+  assert.match(google, /^VERSION:3\.0$/m);
+  assert.match(google, /^FN:René Clément$/m);
+  assert.doesNotMatch(google, /QUOTED-PRINTABLE/);
+});
+
+test('bare parameters count as types', () => {
+  const [contact] = readContacts(runScript({
+    'phone.vcf': card21(['FN:Ann Lee', 'TEL;CELL;PREF:+1 415 555 0100', 'EMAIL;INTERNET;HOME:ann@example.org']),
+  }, ['-f', 'json']));
+  assert.deepEqual(contact.phones.map(p => p.types), [['CELL']]);
+  assert.ok(contact.emails[0].types.includes('HOME'));
+});
+
+test('base64 photos running on over several lines are joined', () => {
+  const [contact] = readContacts(runScript({
+    'phone.vcf': card21([
+      'FN:Ann Lee',
+      'TEL:+1 415 555 0100',
+      'PHOTO;ENCODING=BASE64;TYPE=JPEG:/9j/4AAQSkZJRgABAQ',
+      'AAAQABAAD/2wBDAAgGBgcGBQgH',
+      '    BwcJCQgKDBQNDAsLDBkSEw8U',
+      '',
+    ]),
+  }, ['-f', 'json']));
+  assert.equal(contact.photo, 'data:image/jpeg;base64,/9j/4AAQSkZJRgABAQAAAQABAAD/2wBDAAgGBgcGBQgHBwcJCQgKDBQNDAsLDBkSEw8U');
+});
+
+test('files that are not UTF-8 are decoded in the charset each value declares', () => {
+  const latin1 = Buffer.from(card21([
+    'N;CHARSET=ISO-8859-1:Müller;Jürgen',
+    'FN;CHARSET=ISO-8859-1:Jürgen Müller',
+    'TEL;HOME:+49 30 1234567',
+  ]), 'latin1');
+  const [contact] = readContacts(runScript({ 'phone.vcf': latin1 }, ['-f', 'json']));
+  assert.equal(contact.fn, 'Jürgen Müller');
+  assert.equal(contact.name?.family, 'Müller');
+});
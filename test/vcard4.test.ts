@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readOutput, runScript, vcard } from './run';
+
+function card4(lines: string[]): string {
+  return ['BEGIN:VCARD', 'VERSION:4.0', ...lines, 'END:VCARD'].join('\r\n') + '\r\n';
+}
+
+const JANE = card4([
+  'UID:urn:uuid:4fbe8971-0bc3-424c-9c26-36c3e1eff6b1',
+  'FN:Jane Doe',
+  'N:Doe;Jane;;;',
+  'GENDER:F',
+  'ANNIVERSARY:20090808',
+  'BDAY:19850412',
+  'TEL;VALUE=uri;TYPE="cell,voice";PREF=1:tel:+1-415-555-0134',
+  'EMAIL;TYPE=work:jane@doe-industries.com',
+  'RELATED;TYPE=spouse:urn:uuid:03a0e51f-d1aa-4385-8a53-e29025acd8af',
+  'PHOTO:data:image/png;base64,iVBORw0KGgoAAAANSUhEUg',
+]);
+
+test('vCard 4.0 fields take Apple\'s form in vCard 3.0', () => {
+  const apple = readOutput(runScript({ 'v4.vcf': JANE }, ['-f', 'apple']), 'cleaned-apple-');
+  assert.match(apple, /^VERSION:3\.0$/m);
+  assert.match(apple, /^TEL;TYPE=CELL,VOICE,PREF:\+14155550134$/m);
+  assert.match(apple, /^item\d\.X-ABDATE:2009-08-08\r\nitem\d\.X-ABLabel:_\$!<Anniversary>!\$_$/m);
+  assert.match(apple, /^X-GENDER:F$/m);
+  assert.match(apple, /^item\d\.X-ABRELATEDNAMES:urn:uuid:03a0e51f-d1aa-4385-8a53-e29025acd8af\r\nitem\d\.X-ABLabel:_\$!<Spouse>!\$_$/m);
+  assert.match(apple, /^PHOTO;ENCODING=b;TYPE=PNG:iVBORw0KGgoAAAANSUhEUg$/m);
+});
+
+test('Apple\'s vCard 3.0 forms convert back to vCard 4.0', () => {
+  const apple = readOutput(runScript({ 'v4.vcf': JANE }, ['-f', 'apple']), 'cleaned-apple-');
+  const v4 = readOutput(runScript({ 'apple.vcf': apple }, ['-f', 'vcard4']), 'cleaned-vcard4-');
+  assert.match(v4, /^VERSION:4\.0$/m);
+  assert.match(v4, /^TEL;VALUE=uri;TYPE=cell,voice;PREF=1:tel:\+14155550134$/m);
+  assert.match(v4, /^BDAY:19850412$/m);
+  assert.match(v4, /^ANNIVERSARY:20090808$/m);
+  assert.match(v4, /^GENDER:F$/m);
+  assert.match(v4, /^RELATED;TYPE=spouse:urn:uuid:03a0e51f-d1aa-4385-8a53-e29025acd8af$/m);
+  assert.match(v4, /^PHOTO:data:image\/png;base64,iVBORw0KGgoAAAANSUhEUg$/m);
+});
+
+test('group cards keep their kind and members in both versions', () => {
+  const dir = runScript({
+    'groups.vcf': card4([
+      'UID:urn:uuid:a1',
+      'KIND:group',
+      'FN:Book Club',
+      'MEMBER:urn:uuid:4fbe8971-0bc3-424c-9c26-36c3e1eff6b1',
+    ]) + vcard(['FN:Jane Doe', 'TEL:+1 415 555 0134']),
+  }, ['-f', 'apple,vcard4', '--skip-filter']);
+  const v4 = readOutput(dir, 'cleaned-vcard4-');
+  assert.match(v4, /^KIND:group$/m);
+  assert.match(v4, /^MEMBER:urn:uuid:4fbe8971-0bc3-424c-9c26-36c3e1eff6b1$/m);
+  const apple = readOutput(dir, 'cleaned-apple-');
+  assert.match(apple, /^X-ADDRESSBOOKSERVER-KIND:group$/m);
+  assert.match(apple, /^X-ADDRESSBOOKSERVER-MEMBER:urn:uuid:4fbe8971-0bc3-424c-9c26-36c3e1eff6b1$/m);
+});